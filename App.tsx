@@ -1,9 +1,19 @@
 
 import React, { useState, useEffect, useRef } from 'react';
-import { FileText, Upload, Database, Layout, Download, AlertCircle, CheckCircle2, ChevronRight, ChevronLeft, Trash2, FolderTree, RefreshCw, FileCode, Package, BarChart3, ListChecks } from 'lucide-react';
+import { FileText, Upload, Database, Layout, Download, AlertCircle, CheckCircle2, ChevronRight, ChevronLeft, ChevronUp, ChevronDown, GripVertical, Trash2, FolderTree, RefreshCw, FileCode, Package, BarChart3, ListChecks, Columns } from 'lucide-react';
 import { StepWizard } from './components/StepWizard';
-import { ProjectMetadata, ProjectStats, ProcessedData, Step, FileUploadStatus, ComparisonData } from './types';
-import { parseTableData, parseDGESummary, parseComparisonDGE, parseEnrichment, parseGTF } from './utils/excelParser';
+import { ThresholdEditor } from './components/ThresholdEditor';
+import { ColumnMappingDialog } from './components/ColumnMappingDialog';
+import { SampleSheetEditor } from './components/SampleSheetEditor';
+import { SampleAliasEditor } from './components/SampleAliasEditor';
+import { ProjectMetadata, ProjectStats, ProcessedData, Step, FileUploadStatus, ComparisonData, ComparisonStats, SignificanceThresholds, TableKind, TableLayout, SheetPreview, MappingProfile, TranscriptStat, TranscriptModel, DataSection, DataSource, SampleInfo, QCRule, QCCurveKind, QCCurves } from './types';
+import { parseTableData, parseDGESummary, parseComparisonDGE, parseEnrichment, parseGTF, parseNovelIsoforms, buildLocusModels, CLASS_CODE_LABELS, summarizeDGE, formatThresholds, describeDGEColumns, Y_AXIS_LABELS, DEFAULT_THRESHOLDS, readSheetPreview, innerFileName, parseSampleSheet, sampleColumn, sampleIdsOf, aliasOf, parseAlignerLog, alignerLogTable, parseMultiQC, multiqcStatsTable, parseFastQC } from './utils/excelParser';
+import { detectFileType, detectComparisonId, describeComparison } from './utils/fileTypeDetector';
+import { deriveProjectStats } from './utils/projectStats';
+import { mergeStatsTables, statsStageOf } from './utils/statsTables';
+import { validateReport } from './utils/reportValidator';
+import { DEFAULT_QC_RULES, evaluateQC, describeQCRule } from './utils/qcRules';
+import { QCRulesEditor } from './components/QCRulesEditor';
 import { DEFAULT_TEMPLATE } from './constants';
 import * as XLSX from 'xlsx';
 
@@ -56,17 +66,253 @@ const DEFAULT_TREE = `Deliverables
 └── 07_Project_Reports
     └── multiqc_report.html`;
 
+const STEP_LABELS = ['Metadata', 'Key Stats', 'Data Upload', 'Deliverables', 'Generate'];
+
+const MAPPING_PROFILES_KEY = 'unigenome.mappingProfiles';
+const QC_RULES_KEY = 'unigenome.qcRules';
+
+// Insert or update the DGE summary row computed for a comparison
+const upsertSummaryRow = (table: ProcessedData['dgeSummaryTable'], compId: string, desc: string, stats: ComparisonStats): ProcessedData['dgeSummaryTable'] => {
+  const entry = {
+    comp: compId,
+    desc,
+    total: stats.total,
+    downTotal: stats.down,
+    upTotal: stats.up,
+    sigDown: stats.sigDown,
+    sigUp: stats.sigUp,
+    sig: stats.sigTotal
+  };
+
+  const existingIndex = table.findIndex(row => row.comp === compId);
+  const next = [...table];
+  if (existingIndex >= 0) {
+    next[existingIndex] = { ...next[existingIndex], ...entry };
+  } else {
+    next.push(entry);
+  }
+
+  next.sort((a,b) => a.comp.localeCompare(b.comp, undefined, {numeric: true}));
+  return next;
+};
+
+// Record an upload as the one now populating a report section, replacing any earlier source
+const claimSource = (sources: DataSource[], source: DataSource): DataSource[] =>
+  [...sources.filter(s => !(s.section === source.section && s.target === source.target)), source];
+
+// Clear the data one source put into a section
+const withoutSource = (data: ProcessedData, source: DataSource): ProcessedData => {
+  const compId = source.target;
+  switch (source.section) {
+    case 'sampleSheet': {
+      // Unlink contrast sides naming a condition that only the withdrawn sheet listed; other links stay
+      const withdrawn = new Set(data.samples.map(s => s.condition).filter(Boolean));
+      const unlink = (condition?: string) => condition && withdrawn.has(condition) ? undefined : condition;
+      const comparisons = Object.fromEntries(Object.entries(data.comparisons).map(([id, comp]) =>
+        [id, { ...comp, numerator: unlink(comp.numerator), denominator: unlink(comp.denominator) }]));
+      return { ...data, samples: [], comparisons };
+    }
+    case 'dataStats': {
+      // Each stats upload is one part of the joined table; dropping one re-joins the rest
+      if (!source.target) return { ...data, dataStatsTable: [], dataStatsParts: [] };
+      const dataStatsParts = data.dataStatsParts.filter(part => part.sourceId !== source.fileId);
+      return { ...data, dataStatsParts, dataStatsTable: mergeStatsTables(dataStatsParts) };
+    }
+    case 'fastqc': return { ...data, fastqcReports: data.fastqcReports.filter(r => r.sourceId !== source.fileId) };
+    case 'qcCurves': {
+      const { [source.target as QCCurveKind]: _, ...qcCurves } = data.qcCurves;
+      return { ...data, qcCurves };
+    }
+    case 'mappingStats': {
+      // Per-sample logs are targeted by sample; dropping one rebuilds the table from the rest
+      if (!source.target) return { ...data, mappingStatsTable: [], alignerLogs: [] };
+      const alignerLogs = data.alignerLogs.filter(log => log.sourceId !== source.fileId);
+      return { ...data, alignerLogs, mappingStatsTable: alignerLogTable(alignerLogs) };
+    }
+    case 'dgeSummary': {
+      // Rows written from DGE tables that are still loaded outlive the summary file
+      const dgeSummaryTable = Object.values(data.comparisons).reduce((table, comp: ComparisonData) =>
+        comp.records && comp.stats ? upsertSummaryRow(table, comp.id, comp.description, comp.stats) : table, [] as ProcessedData['dgeSummaryTable']);
+      return { ...data, dgeSummaryTable };
+    }
+    case 'novelIsoforms': return { ...data, novelIsoforms: null };
+    case 'transcriptStats': {
+      const { [source.fileId]: _, ...transcriptModels } = data.transcriptModels;
+      return { ...data, transcriptStats: data.transcriptStats.filter(t => t.sourceId !== source.fileId), transcriptModels };
+    }
+    case 'template': return data;
+  }
+  if (!compId || !data.comparisons[compId]) return data;
+
+  const comp = { ...data.comparisons[compId] };
+  let dgeSummaryTable = data.dgeSummaryTable;
+  if (source.section === 'dge') {
+    delete comp.records;
+    delete comp.dgeInfo;
+    delete comp.stats;
+    comp.sigCount = 0;
+    comp.maPoints = [];
+    comp.volcanoPoints = [];
+    dgeSummaryTable = dgeSummaryTable.filter(row => row.comp !== compId);
+  }
+  if (source.section === 'go') comp.goTerms = [];
+  if (source.section === 'kegg') comp.keggPathways = [];
+  return { ...data, dgeSummaryTable, comparisons: { ...data.comparisons, [compId]: comp } };
+};
+
+// Drop the given comparisons once they hold no data and the DGE summary no longer lists them
+const pruneComparisons = (data: ProcessedData, ids: string[]): ProcessedData => {
+  const comparisons = { ...data.comparisons };
+  ids.forEach(id => {
+    const comp = comparisons[id];
+    if (!comp || comp.records || comp.goTerms.length > 0 || comp.keggPathways.length > 0) return;
+    const listed = data.dgeSummaryTable.some(row => String(row.comp) === id || detectComparisonId(String(row.comp)) === id);
+    if (!listed) delete comparisons[id];
+  });
+  return { ...data, comparisons };
+};
+
+// Link comparisons without numerator / denominator to sample sheet conditions named by their `X_vs_Y` ID
+const linkContrasts = (data: ProcessedData): ProcessedData => {
+  const conditions = new Map(data.samples.filter(s => s.condition).map(s => [s.condition.toLowerCase(), s.condition]));
+  if (conditions.size === 0) return data;
+  const comparisons = { ...data.comparisons };
+  Object.values(comparisons).forEach((comp: ComparisonData) => {
+    const sides = comp.id.split('_vs_');
+    if (sides.length !== 2 || comp.numerator || comp.denominator) return;
+    const numerator = conditions.get(sides[0].toLowerCase());
+    const denominator = conditions.get(sides[1].toLowerCase());
+    if (numerator && denominator) comparisons[comp.id] = { ...comp, numerator, denominator };
+  });
+  return { ...data, comparisons };
+};
+
+// Sample IDs listed in the uploaded per-sample tables
+const tableSampleIds = (data: ProcessedData): string[] =>
+  Array.from(new Set([...sampleIdsOf(data.dataStatsTable), ...sampleIdsOf(data.mappingStatsTable), ...data.fastqcReports.map(r => r.sample)]));
+
+// Replace sample IDs by their aliases in a per-sample table's sample column
+const aliasTable = (table: string[][], aliases: Record<string, string>): string[][] => {
+  if (table.length < 2) return table;
+  const col = sampleColumn(table);
+  return [table[0], ...table.slice(1).map(row => row.map((cell, idx) => idx === col ? aliasOf(aliases, cell) : cell))];
+};
+
+// Comparisons in display order: the user's explicit order first, then any others in natural order
+const orderedComparisonIds = (data: ProcessedData): string[] => [
+  ...data.comparisonOrder.filter(id => data.comparisons[id]),
+  ...Object.keys(data.comparisons)
+    .filter(id => !data.comparisonOrder.includes(id))
+    .sort((a, b) => a.localeCompare(b, undefined, { numeric: true }))
+];
+
+const COMPARISON_SECTIONS: DataSection[] = ['dge', 'go', 'kegg'];
+
+const summaryRowIs = (row: { comp: string }, id: string) => String(row.comp) === id || detectComparisonId(String(row.comp)) === id;
+
+// Remove a comparison with its DGE summary row and provenance entries
+const deleteComparisonData = (data: ProcessedData, id: string): ProcessedData => {
+  const { [id]: _, ...comparisons } = data.comparisons;
+  return {
+    ...data,
+    comparisons,
+    comparisonOrder: data.comparisonOrder.filter(c => c !== id),
+    dgeSummaryTable: data.dgeSummaryTable.filter(row => !summaryRowIs(row, id)),
+    sources: data.sources.filter(src => !(src.target === id && COMPARISON_SECTIONS.includes(src.section)))
+  };
+};
+
+// Fold one comparison into another: data the target lacks (DGE, GO, KEGG) moves over, the rest is dropped
+const mergeComparisonData = (data: ProcessedData, fromId: string, intoId: string): ProcessedData => {
+  const from = data.comparisons[fromId];
+  const into = data.comparisons[intoId];
+  if (!from || !into || fromId === intoId) return data;
+
+  const hasDGE = (c: ComparisonData) => !!c.records || c.volcanoPoints.length > 0;
+  const moved: DataSection[] = [];
+  const merged: ComparisonData = { ...into, group: into.group || from.group };
+  if (!hasDGE(into) && hasDGE(from)) {
+    Object.assign(merged, {
+      records: from.records, dgeInfo: from.dgeInfo, stats: from.stats, thresholds: from.thresholds,
+      sigCount: from.sigCount, maPoints: from.maPoints, volcanoPoints: from.volcanoPoints
+    });
+    moved.push('dge');
+  }
+  if (into.goTerms.length === 0 && from.goTerms.length > 0) { merged.goTerms = from.goTerms; moved.push('go'); }
+  if (into.keggPathways.length === 0 && from.keggPathways.length > 0) { merged.keggPathways = from.keggPathways; moved.push('kegg'); }
+
+  const hasIntoRow = data.dgeSummaryTable.some(row => summaryRowIs(row, intoId));
+  const dgeSummaryTable = data.dgeSummaryTable
+    .filter(row => !summaryRowIs(row, fromId) || !hasIntoRow)
+    .map(row => summaryRowIs(row, fromId) ? { ...row, comp: intoId } : row);
+  const sources = data.sources.map(src => src.target === fromId && moved.includes(src.section) ? { ...src, target: intoId } : src);
+
+  return deleteComparisonData({ ...data, dgeSummaryTable, sources, comparisons: { ...data.comparisons, [intoId]: merged } }, fromId);
+};
+
+const QC_CURVE_LABELS: Record<QCCurveKind, string> = {
+  quality: 'per-base quality',
+  adapter: 'adapter content'
+};
+
+// Curve keys follow the sample aliases like the per-sample tables
+const aliasCurves = (curves: QCCurves, aliases: Record<string, string>): QCCurves =>
+  Object.fromEntries(Object.entries(curves).map(([kind, bySample]) =>
+    [kind, Object.fromEntries(Object.entries(bySample || {}).map(([sample, points]) => [aliasOf(aliases, sample), points]))]));
+
+const SECTION_LABELS: Record<DataSection, string> = {
+  sampleSheet: 'Experimental Design',
+  dataStats: 'Data & QC Statistics',
+  qcCurves: 'QC Curves',
+  fastqc: 'FastQC Reports',
+  mappingStats: 'Mapping Statistics',
+  dgeSummary: 'DGE Summary',
+  transcriptStats: 'Transcript Assembly',
+  novelIsoforms: 'Novel Isoforms',
+  dge: 'DGE Plots',
+  go: 'GO Enrichment',
+  kegg: 'KEGG Pathways',
+  template: 'Report Template'
+};
+
+const TYPE_LABELS: Record<FileUploadStatus['type'], string> = {
+  sample_sheet: 'Sample Sheet',
+  stats: 'Data / QC Stats',
+  fastqc: 'FastQC Report',
+  mapping: 'Mapping Stats',
+  dge_summary: 'DGE Summary',
+  comparison_dge: 'Comparison DGE',
+  comparison_go: 'Comparison GO',
+  comparison_kegg: 'Comparison KEGG',
+  gtf_novel: 'Novel Isoforms GTF',
+  gtf_merged: 'Merged GTF',
+  template: 'Report Template',
+  deliverable_only: 'Deliverable Only'
+};
+
 export default function App() {
   const [step, setStep] = useState<Step>(Step.METADATA);
   const [metadata, setMetadata] = useState<ProjectMetadata>(INITIAL_METADATA);
   const [stats, setStats] = useState<ProjectStats>(INITIAL_STATS);
+  // Stats the user has typed over; the rest follow the values derived from the uploaded tables
+  const [statOverrides, setStatOverrides] = useState<(keyof ProjectStats)[]>([]);
   const [deliverablesTree, setDeliverablesTree] = useState(DEFAULT_TREE);
   
   // Data State
   const [processedData, setProcessedData] = useState<ProcessedData>({
     dataStatsTable: [],
+    dataStatsParts: [],
     mappingStatsTable: [],
+    alignerLogs: [],
+    qcCurves: {},
+    fastqcReports: [],
+    samples: [],
+    sampleAliases: {},
     transcriptStats: [],
+    novelIsoforms: null,
+    transcriptModels: {},
+    sources: [],
+    comparisonOrder: [],
     dgeSummaryTable: [],
     comparisons: {},
     deliverablesTree: DEFAULT_TREE
@@ -75,87 +321,69 @@ export default function App() {
   const [uploadStatus, setUploadStatus] = useState<FileUploadStatus[]>([]);
   const [customTemplate, setCustomTemplate] = useState<string | null>(null);
   const [isGenerating, setIsGenerating] = useState(false);
-
-  // Helper: Detect comparison ID from filename (e.g., "Comparison1" -> "C1", "C2_DGE" -> "C2")
-  const detectComparisonId = (filename: string): string | null => {
-    // Matches: "Comparison 1", "Comp-1", "C1", "C_1", "Contrast 1", "Group 1", "G1"
-    const match = filename.match(/(?:Comparison|Comp|C|Contrast|Group|G)\s*[-_]?\s*(\d+)/i);
-    return match ? `C${match[1]}` : null;
-  };
-
-  // Helper: Detect file type
-  const detectFileType = (filename: string): FileUploadStatus['type'] | 'unknown' => {
-    const lower = filename.toLowerCase();
-    
-    // 0. Non-Parseable / Deliverables Only (Binaries, Raw Data, Images, PDFs)
-    if (
-        lower.endsWith('.fastq') || lower.endsWith('.fq') || lower.endsWith('.fastq.gz') || lower.endsWith('.fq.gz') || // Raw Data
-        lower.endsWith('.bam') || lower.endsWith('.sam') || lower.endsWith('.bai') || // Alignment
-        lower.endsWith('.fa') || lower.endsWith('.fasta') || lower.endsWith('.fna') || // Reference
-        lower.endsWith('.pdf') || lower.endsWith('.png') || lower.endsWith('.jpg') || lower.endsWith('.jpeg') || lower.endsWith('.svg') // Images/Docs
-    ) {
-        return 'deliverable_only';
+  const [defaultThresholds, setDefaultThresholds] = useState<SignificanceThresholds>(DEFAULT_THRESHOLDS);
+
+  // Uploaded File objects, retained so files can be re-parsed (e.g. after column mapping)
+  const fileStore = useRef<Record<string, File>>({});
+  // Abort handles for parses still in progress, keyed by upload id
+  const parseControllers = useRef<Record<string, AbortController>>({});
+  const [draggedComp, setDraggedComp] = useState<string | null>(null);
+  const [editingSamples, setEditingSamples] = useState(false);
+  const [editingAliases, setEditingAliases] = useState(false);
+  const [mappingQueue, setMappingQueue] = useState<{ fileId: string; preview: SheetPreview }[]>([]);
+  const [mappingProfiles, setMappingProfiles] = useState<Record<string, MappingProfile>>(() => {
+    try {
+      return JSON.parse(localStorage.getItem(MAPPING_PROFILES_KEY) || '{}');
+    } catch {
+      return {};
     }
-
-    // 1. Template
-    if (lower.endsWith('.html') || lower.endsWith('.htm')) return 'template';
-
-    // 2. GTF Files
-    if (lower.endsWith('.gtf')) {
-        // Novel isoforms specific
-        if (lower.includes('novel') || lower.includes('isoform')) return 'gtf_novel';
-        // General merged transcripts or just default gtf
-        return 'gtf_merged';
+  });
+  const mappingProfilesRef = useRef(mappingProfiles);
+  const [qcRules, setQcRules] = useState<QCRule[]>(() => {
+    try {
+      const saved: QCRule[] = JSON.parse(localStorage.getItem(QC_RULES_KEY) || '[]');
+      return DEFAULT_QC_RULES.map(rule => saved.find(r => r.metric === rule.metric) || rule);
+    } catch {
+      return DEFAULT_QC_RULES;
     }
+  });
 
-    // 3. Mapping Stats (Text/Excel based)
-    // Must contain stats/summary keywords AND mapping/align keywords
-    // Exclude if it looks like a binary file (handled above, but just in case)
-    if (
-        (lower.includes('mapping') || lower.includes('align') || lower.includes('star') || lower.includes('bowtie') || lower.includes('hisat')) && 
-        (lower.includes('stat') || lower.includes('summary') || lower.includes('report') || lower.includes('log') || lower.endsWith('.txt') || lower.endsWith('.csv') || lower.endsWith('.xlsx'))
-    ) return 'mapping';
-
-    // 4. Global Stats (Data/QC)
-    if (
-        lower.includes('multiqc') || 
-        ((lower.includes('stat') || lower.includes('report') || lower.includes('summary')) && 
-         (lower.includes('data') || lower.includes('raw') || lower.includes('seq') || lower.includes('trim') || lower.includes('qc') || lower.includes('qual')))
-    ) return 'stats';
-
-    // 5. DGE Summary (Overview table of all comparisons)
-    if ((lower.includes('summary') || lower.includes('overview') || lower.includes('all')) && (lower.includes('dge') || lower.includes('diff') || lower.includes('deg'))) return 'dge_summary';
-    
-    // 6. Comparison Specific Files
-    // GO / Enrichment
-    if (
-        (lower.includes('go') && (lower.includes('enrich') || lower.includes('term') || lower.includes('result') || lower.includes('_go') || lower.includes('go_'))) || 
-        lower.includes('gene_ontology')
-    ) return 'comparison_go';
-
-    // Comparison: KEGG
-    if (lower.includes('kegg') || lower.includes('pathway')) return 'comparison_kegg';
-
-    // Comparison: DGE (Detailed results for one comparison)
-    const dgeKeywords = ['dge', 'diff', 'deg', 'result', 'comp', 'contrast', 'vs', 'change', 'fc', 'volcano', 'ma_plot', 'table', 'output'];
-    if (dgeKeywords.some(k => lower.includes(k)) && !lower.includes('summary') && !lower.includes('overview')) {
-        return 'comparison_dge';
-    }
-    
-    // Fallback: If it has a comparison ID (e.g. "C1.xlsx") and is an excel/csv/txt file, assume DGE
-    if (detectComparisonId(filename) && (lower.endsWith('xlsx') || lower.endsWith('csv') || lower.endsWith('txt') || lower.endsWith('xls'))) {
-        return 'comparison_dge';
-    }
-    
-    // Fallback for generic text/excel files that might be stats or something else, default to deliverable only to avoid errors
-    if (lower.endsWith('.txt') || lower.endsWith('.csv') || lower.endsWith('.xlsx') || lower.endsWith('.xls') || lower.endsWith('.tsv')) {
-        return 'deliverable_only';
-    }
+  useEffect(() => {
+    localStorage.setItem(MAPPING_PROFILES_KEY, JSON.stringify(mappingProfiles));
+  }, [mappingProfiles]);
+
+  useEffect(() => {
+    localStorage.setItem(QC_RULES_KEY, JSON.stringify(qcRules));
+  }, [qcRules]);
+
+  const derivedStats = deriveProjectStats(processedData);
+  // Stat values from before a key was derived, restored once no upload derives it any more
+  const underivedStats = useRef<Partial<ProjectStats>>({});
+
+  useEffect(() => {
+    const derived = deriveProjectStats(processedData);
+    const saved = underivedStats.current;
+    const keys = (Object.keys(stats) as (keyof ProjectStats)[]).filter(key => !statOverrides.includes(key));
+    const updates = keys.flatMap(key => {
+      if (derived[key]) {
+        if (!(key in saved)) Object.assign(saved, { [key]: stats[key] });
+        return [{ [key]: derived[key]!.value }];
+      }
+      if (!(key in saved)) return [];
+      const restored = { [key]: saved[key] };
+      delete saved[key];
+      return [restored];
+    });
+    if (updates.length === 0) return;
+    setStats(prev => Object.assign({ ...prev }, ...updates));
+  }, [processedData, statOverrides]);
 
-    return 'unknown';
+  const updateStat = (key: keyof ProjectStats, value: string | number) => {
+    setStats(prev => ({ ...prev, [key]: value }));
+    if (derivedStats[key] && !statOverrides.includes(key)) setStatOverrides(prev => [...prev, key]);
   };
 
-  const updateComparisonDetails = (id: string, field: 'name' | 'description', value: string) => {
+  const updateComparisonDetails = (id: string, field: 'name' | 'description' | 'group' | 'numerator' | 'denominator', value: string) => {
     setProcessedData(prev => ({
       ...prev,
       comparisons: {
@@ -165,64 +393,263 @@ export default function App() {
     }));
   };
 
+  const saveSamples = (samples: SampleInfo[]) => {
+    setProcessedData(prev => linkContrasts({ ...prev, samples }));
+    setEditingSamples(false);
+  };
+
+  const saveAliases = (sampleAliases: Record<string, string>) => {
+    setProcessedData(prev => ({ ...prev, sampleAliases }));
+    setEditingAliases(false);
+  };
+
+  // Move a comparison up (-1) or down (+1); the resulting order is kept for the builder and the report
+  const moveComparison = (id: string, delta: number) => {
+    setProcessedData(prev => {
+        const order = orderedComparisonIds(prev);
+        const from = order.indexOf(id);
+        const to = from + delta;
+        if (from < 0 || to < 0 || to >= order.length) return prev;
+        [order[from], order[to]] = [order[to], order[from]];
+        return { ...prev, comparisonOrder: order };
+    });
+  };
+
+  // Drag-and-drop: place `id` at the position of `targetId`
+  const reorderComparison = (id: string, targetId: string) => {
+    setProcessedData(prev => {
+        const order = orderedComparisonIds(prev).filter(c => c !== id);
+        const to = order.indexOf(targetId);
+        if (to < 0 || id === targetId) return prev;
+        const from = orderedComparisonIds(prev).indexOf(id);
+        order.splice(from <= to ? to + 1 : to, 0, id);
+        return { ...prev, comparisonOrder: order };
+    });
+  };
+
+  const deleteComparison = (id: string) => {
+    if (!window.confirm(`Delete comparison "${processedData.comparisons[id]?.name || id}" and its data?`)) return;
+    setProcessedData(prev => deleteComparisonData(prev, id));
+  };
+
+  const mergeComparison = (fromId: string, intoId: string) => {
+    const from = processedData.comparisons[fromId];
+    const into = processedData.comparisons[intoId];
+    if (!from || !into) return;
+    if (!window.confirm(`Merge "${from.name}" into "${into.name}"? Data already present in "${into.name}" is kept.`)) return;
+    setProcessedData(prev => mergeComparisonData(prev, fromId, intoId));
+    setUploadStatus(prev => prev.map(s => s.assignedTo === fromId ? { ...s, assignedTo: intoId } : s));
+  };
+
+  // Recompute significance for every comparison whose effective thresholds change
+  const recomputeSignificance = (comparisons: Record<string, ComparisonData>, summaryTable: ProcessedData['dgeSummaryTable'], ids: string[], projectDefault: SignificanceThresholds) => {
+    const nextComparisons = { ...comparisons };
+    let nextSummary = summaryTable;
+    ids.forEach(id => {
+        const comp = nextComparisons[id];
+        if (!comp || !comp.records) return;
+        const summary = summarizeDGE(comp.records, comp.thresholds || projectDefault);
+        nextComparisons[id] = { ...comp, ...summary };
+        nextSummary = upsertSummaryRow(nextSummary, id, comp.description, summary.stats);
+    });
+    return { comparisons: nextComparisons, dgeSummaryTable: nextSummary };
+  };
+
+  const updateComparisonThresholds = (id: string, thresholds: SignificanceThresholds | undefined) => {
+    setProcessedData(prev => ({
+      ...prev,
+      ...recomputeSignificance(
+        { ...prev.comparisons, [id]: { ...prev.comparisons[id], thresholds } },
+        prev.dgeSummaryTable,
+        [id],
+        defaultThresholds
+      )
+    }));
+  };
+
+  const updateDefaultThresholds = (thresholds: SignificanceThresholds) => {
+    setDefaultThresholds(thresholds);
+    setProcessedData(prev => ({
+      ...prev,
+      ...recomputeSignificance(
+        prev.comparisons,
+        prev.dgeSummaryTable,
+        (Object.values(prev.comparisons) as ComparisonData[]).filter(c => !c.thresholds).map(c => c.id),
+        thresholds
+      )
+    }));
+  };
+
   const handleSmartUpload = async (e: React.ChangeEvent<HTMLInputElement>) => {
     if (!e.target.files) return;
     const files = Array.from(e.target.files) as File[];
 
+    // Ids added by this selection, which the `uploadStatus` of this render does not list yet
+    const added: Record<string, string> = {};
     for (const file of files) {
-        const type = detectFileType(file.name);
-        const compId = detectComparisonId(file.name);
+        // Re-uploading a file of the same name replaces the earlier upload and its data
+        const previousId = added[file.name] ?? uploadStatus.find(s => s.name === file.name)?.id;
+        if (previousId) removeFile(previousId);
+
+        // Compressed files are detected by the name inside the archive; parsers decompress on read
+        const { type, ...detection } = await detectFileType(file);
+        const compId = detectComparisonId(innerFileName(file.name));
         
         const fileId = Math.random().toString(36).substr(2, 9);
         const newStatus: FileUploadStatus = { 
             id: fileId,
             name: file.name, 
-            type: type as any, 
+            // Unknown files are listed as deliverables; processFile notes why
+            type: type === 'unknown' ? 'deliverable_only' : type, 
             assignedTo: compId || undefined,
-            status: 'pending' 
+            status: 'pending',
+            detection
         };
 
         setUploadStatus(prev => [...prev, newStatus]);
+        fileStore.current[fileId] = file;
+        added[file.name] = fileId;
 
+        await processFile(file, fileId, type, compId);
+    }
+  };
+
+  // Parse one uploaded file and merge its contents into the project state.
+  // `layout` carries a confirmed column mapping for DGE / enrichment tables.
+  const processFile = async (file: File, fileId: string, type: FileUploadStatus['type'] | 'unknown', compId: string | null, layout?: TableLayout) => {
+        let successMessage: string | undefined;
+        const source = (section: DataSection, target?: string): DataSource => ({ section, target, fileId, fileName: file.name });
+        // Removing or reassigning the file aborts this parse; its results must not land after the retraction
+        const controller = new AbortController();
+        parseControllers.current[fileId] = controller;
+        const commit = (update: (prev: ProcessedData) => ProcessedData) => {
+            controller.signal.throwIfAborted();
+            setProcessedData(update);
+        };
         try {
             if (type === 'unknown') {
                  console.warn(`File ${file.name} type unknown. Added to deliverables list only.`);
                  setUploadStatus(prev => prev.map(s => s.id === fileId ? { ...s, status: 'success', type: 'deliverable_only', message: 'Type unknown, added to tree only' } : s));
-                 continue;
+                 return;
             }
 
             if (type === 'deliverable_only') {
                  setUploadStatus(prev => prev.map(s => s.id === fileId ? { ...s, status: 'success' } : s));
-                 continue;
+                 return;
             }
 
             if (type.startsWith('comparison_') && !compId) {
                  throw new Error(`Detected ${type.replace('comparison_', '').toUpperCase()} file but missing Comparison ID (e.g. 'C1', 'Comp1') in filename.`);
             }
 
-            if (type === 'stats') {
-                const table = await parseTableData(file);
-                setProcessedData(prev => ({ ...prev, dataStatsTable: table }));
+            if (type === 'sample_sheet') {
+                const samples = await parseSampleSheet(file, { signal: controller.signal });
+                if (samples.length === 0) throw new Error('No sample rows found in sample sheet.');
+                const conditions = new Set(samples.map(s => s.condition).filter(Boolean));
+                successMessage = `${samples.length} samples in ${conditions.size} conditions`;
+                commit(prev => linkContrasts({ ...prev, samples, sources: claimSource(prev.sources, source('sampleSheet')) }));
+            }
+            else if (type === 'stats') {
+                // Stats tables accumulate and are joined by sample, e.g. raw and clean read statistics
+                const label = statsStageOf(innerFileName(file.name));
+                const withStatsTable = (prev: ProcessedData, table: string[][]): ProcessedData => {
+                    const dataStatsParts = [...prev.dataStatsParts, { sourceId: fileId, label, table }];
+                    return { ...prev, dataStatsParts, dataStatsTable: mergeStatsTables(dataStatsParts), sources: claimSource(prev.sources, source('dataStats', fileId)) };
+                };
+                const multiqc = await parseMultiQC(file);
+                if (multiqc) {
+                    // MultiQC general statistics fill the Data & QC table; plot data adds per-sample curves
+                    const samples = Object.keys(multiqc.generalStats);
+                    const kinds = Object.keys(multiqc.curves) as QCCurveKind[];
+                    successMessage = [
+                        samples.length > 0 && `${samples.length} samples`,
+                        kinds.length > 0 && `${kinds.map(kind => QC_CURVE_LABELS[kind]).join(' and ')} curves`
+                    ].filter(Boolean).join(', ');
+                    commit(prev => {
+                        const next = samples.length > 0 ? withStatsTable(prev, multiqcStatsTable(multiqc.generalStats)) : prev;
+                        return {
+                            ...next,
+                            qcCurves: { ...prev.qcCurves, ...multiqc.curves },
+                            sources: kinds.reduce((acc, kind) => claimSource(acc, source('qcCurves', kind)), next.sources)
+                        };
+                    });
+                } else {
+                    const table = await parseTableData(file, { signal: controller.signal });
+                    if (label) successMessage = `${label} statistics, joined with other stats tables by sample`;
+                    commit(prev => withStatsTable(prev, table));
+                }
             } 
+            else if (type === 'fastqc') {
+                const report = await parseFastQC(file);
+                const flagged = report.modules.filter(m => m.status !== 'pass').length;
+                successMessage = `FastQC for ${report.sample}: ${flagged === 0 ? 'all modules pass' : `${flagged} of ${report.modules.length} modules warn or fail`}`;
+                // One report per sample: a re-run replaces the earlier one
+                commit(prev => ({
+                    ...prev,
+                    fastqcReports: [...prev.fastqcReports.filter(r => r.sample !== report.sample), { ...report, sourceId: fileId }],
+                    sources: claimSource(prev.sources, source('fastqc', report.sample))
+                }));
+            }
             else if (type === 'mapping') {
-                const table = await parseTableData(file);
-                setProcessedData(prev => ({ ...prev, mappingStatsTable: table }));
+                const log = await parseAlignerLog(file);
+                if (log) {
+                    // One log per sample: merged with the other logs, replacing an earlier log of the same sample
+                    successMessage = `${log.aligner} log for ${log.sample}`;
+                    commit(prev => {
+                        const alignerLogs = [...prev.alignerLogs.filter(l => l.sample !== log.sample), { ...log, sourceId: fileId }];
+                        const sources = prev.sources.filter(src => !(src.section === 'mappingStats' && !src.target));
+                        return { ...prev, alignerLogs, mappingStatsTable: alignerLogTable(alignerLogs), sources: claimSource(sources, source('mappingStats', log.sample)) };
+                    });
+                } else {
+                    // A full mapping table replaces any per-sample logs
+                    const table = await parseTableData(file, { signal: controller.signal });
+                    commit(prev => ({
+                        ...prev,
+                        mappingStatsTable: table,
+                        alignerLogs: [],
+                        sources: claimSource(prev.sources.filter(src => src.section !== 'mappingStats'), source('mappingStats'))
+                    }));
+                }
             } 
             else if (type === 'gtf_novel' || type === 'gtf_merged') {
-                const stats = await parseGTF(file);
-                
-                // If specific type, update global single stats
-                if (type === 'gtf_novel') setStats(prev => ({ ...prev, novelIsoforms: stats.count }));
-                if (type === 'gtf_merged') setStats(prev => ({ ...prev, mergedTranscripts: stats.count }));
+                let lastPercent = -1;
+                const streamOptions = {
+                    signal: controller.signal,
+                    onProgress: (fraction: number) => {
+                        const percent = Math.floor(fraction * 100);
+                        if (percent === lastPercent) return;
+                        lastPercent = percent;
+                        setUploadStatus(prev => prev.map(s => s.id === fileId ? { ...s, progress: fraction } : s));
+                    }
+                };
+                let stats: TranscriptStat;
+                let models: TranscriptModel[];
+                if (type === 'gtf_novel') {
+                    const result = await parseNovelIsoforms(file, streamOptions);
+                    stats = result.stats;
+                    models = result.models;
+                    const novel = result.novel;
+                    commit(prev => ({ ...prev, novelIsoforms: novel, sources: claimSource(prev.sources, source('novelIsoforms')) }));
+                    setStats(prev => ({ ...prev, novelIsoforms: novel.transcripts.length }));
+                    const classCount = Object.keys(novel.classCodes).length;
+                    if (classCount > 0) successMessage = `${novel.transcripts.length.toLocaleString()} novel transcripts in ${classCount} class codes`;
+                } else {
+                    ({ stats, models } = await parseGTF(file, streamOptions));
+                }
 
                 // Add to detailed transcript stats list
-                setProcessedData(prev => ({
+                commit(prev => ({
                     ...prev,
-                    transcriptStats: [...prev.transcriptStats, stats]
+                    transcriptStats: [...prev.transcriptStats, { ...stats, sourceId: fileId }],
+                    transcriptModels: { ...prev.transcriptModels, [fileId]: models },
+                    sources: claimSource(prev.sources, source('transcriptStats', fileId))
                 }));
+
+                // If specific type, update global single stats
+                if (type === 'gtf_merged') setStats(prev => ({ ...prev, mergedTranscripts: stats.count }));
             }
             else if (type === 'dge_summary') {
-                const raw = await parseDGESummary(file);
+                const raw = await parseDGESummary(file, { signal: controller.signal });
                 const summary = raw.map((r: any) => {
                     const keys = Object.keys(r);
                     const findKey = (pattern: RegExp) => keys.find(k => pattern.test(k));
@@ -253,12 +680,12 @@ export default function App() {
                     };
                 });
                 
-                setProcessedData(prev => {
+                commit(prev => {
                     const nextComparisons = { ...prev.comparisons };
                     summary.forEach(row => {
-                         const rowNum = String(row.comp).match(/\d+/)?.[0];
-                         if (rowNum) {
-                             const targetId = `C${rowNum}`; 
+                         // Summary labels map onto the same IDs as filenames ("TT vs NT" -> "TT_vs_NT", "Comparison 1" -> "C1")
+                         const targetId = detectComparisonId(String(row.comp));
+                         if (targetId) {
                              if (nextComparisons[targetId]) {
                                  nextComparisons[targetId] = {
                                      ...nextComparisons[targetId],
@@ -266,10 +693,11 @@ export default function App() {
                                      description: row.desc || nextComparisons[targetId].description
                                  };
                              } else {
+                                 const label = describeComparison(targetId);
                                  nextComparisons[targetId] = {
                                      id: targetId,
-                                     name: `Comparison ${rowNum}`,
-                                     description: row.desc || `Test vs Control`,
+                                     name: label.name,
+                                     description: row.desc || label.description,
                                      sigCount: row.sig,
                                      maPoints: [],
                                      volcanoPoints: [],
@@ -279,23 +707,38 @@ export default function App() {
                              }
                          }
                     });
-                    return { ...prev, dgeSummaryTable: summary, comparisons: nextComparisons };
+                    return linkContrasts({ ...prev, dgeSummaryTable: summary, comparisons: nextComparisons, sources: claimSource(prev.sources, source('dgeSummary')) });
                 });
             }
             else if (type === 'template') {
                  const text = await file.text();
+                 commit(prev => ({ ...prev, sources: claimSource(prev.sources, source('template')) }));
                  setCustomTemplate(text);
             }
             else if (compId && (type === 'comparison_dge' || type === 'comparison_go' || type === 'comparison_kegg')) {
-                setProcessedData(prev => {
-                    const compNum = compId.replace(/\D/g, '');
-                    let defaultName = compNum ? `Comparison ${compNum}` : compId; 
-                    let defaultDesc = `Test vs Control`;
+                // Ambiguous column layouts are held back until the user confirms a mapping
+                const kind: TableKind = type === 'comparison_dge' ? 'dge' : 'enrichment';
+                if (!layout) {
+                    const preview = await readSheetPreview(file, kind);
+                    const profile = mappingProfilesRef.current[`${kind}:${preview.signature}`];
+                    if (profile) {
+                        layout = profile;
+                    } else if (preview.fallbacks.length > 0) {
+                        controller.signal.throwIfAborted();
+                        setMappingQueue(prev => [...prev, { fileId, preview }]);
+                        setUploadStatus(prev => prev.map(s => s.id === fileId ? { ...s, status: 'pending', message: 'Waiting for column mapping' } : s));
+                        return;
+                    }
+                }
+
+                commit(prev => {
+                    const label = describeComparison(compId);
+                    let defaultName = label.name;
+                    let defaultDesc = label.description;
                     
                     if (prev.dgeSummaryTable.length > 0) {
                         const match = prev.dgeSummaryTable.find(row => 
-                            String(row.comp).includes(compNum) || 
-                            String(row.comp).toLowerCase().includes(compId.toLowerCase())
+                            String(row.comp) === compId || detectComparisonId(String(row.comp)) === compId
                         );
                         if (match && match.desc) defaultDesc = match.desc;
                     }
@@ -310,44 +753,29 @@ export default function App() {
                         goTerms: [],
                         keggPathways: []
                     };
-                    return { ...prev, comparisons: { ...prev.comparisons, [compId]: existing } };
+                    return linkContrasts({ ...prev, comparisons: { ...prev.comparisons, [compId]: existing } });
                 });
 
                 if (type === 'comparison_dge') {
-                    const dgeData = await parseComparisonDGE(file);
-                    setProcessedData(prev => {
+                    const dgeData = await parseComparisonDGE(file, defaultThresholds, layout, { signal: controller.signal });
+                    if (dgeData.info.tool) successMessage = `${dgeData.info.tool} output detected`;
+                    commit(prev => {
+                        const current = prev.comparisons[compId];
+                        const summary = current.thresholds ? summarizeDGE(dgeData.records, current.thresholds) : dgeData;
                         const updatedComp = {
-                            ...prev.comparisons[compId],
-                            sigCount: dgeData.sigCount,
-                            stats: dgeData.stats,
-                            maPoints: dgeData.maPoints,
-                            volcanoPoints: dgeData.volcanoPoints
-                        };
-                        
-                        const newSummaryEntry = {
-                            comp: compId,
-                            desc: updatedComp.description,
-                            total: dgeData.stats.total,
-                            downTotal: dgeData.stats.down,
-                            upTotal: dgeData.stats.up,
-                            sigDown: dgeData.stats.sigDown,
-                            sigUp: dgeData.stats.sigUp,
-                            sig: dgeData.stats.sigTotal
+                            ...current,
+                            records: dgeData.records,
+                            dgeInfo: dgeData.info,
+                            sigCount: summary.sigCount,
+                            stats: summary.stats,
+                            maPoints: summary.maPoints,
+                            volcanoPoints: summary.volcanoPoints
                         };
 
-                        const existingSummaryIndex = prev.dgeSummaryTable.findIndex(row => row.comp === compId);
-                        let newSummaryTable = [...prev.dgeSummaryTable];
-                        if (existingSummaryIndex >= 0) {
-                            newSummaryTable[existingSummaryIndex] = { ...newSummaryTable[existingSummaryIndex], ...newSummaryEntry };
-                        } else {
-                            newSummaryTable.push(newSummaryEntry);
-                        }
-                        
-                        newSummaryTable.sort((a,b) => a.comp.localeCompare(b.comp, undefined, {numeric: true}));
-
                         return {
                             ...prev,
-                            dgeSummaryTable: newSummaryTable,
+                            sources: claimSource(prev.sources, source('dge', compId)),
+                            dgeSummaryTable: upsertSummaryRow(prev.dgeSummaryTable, compId, updatedComp.description, summary.stats),
                             comparisons: {
                                 ...prev.comparisons,
                                 [compId]: updatedComp
@@ -356,9 +784,10 @@ export default function App() {
                     });
                 } 
                 else if (type === 'comparison_go') {
-                    const goData = await parseEnrichment(file);
-                    setProcessedData(prev => ({
+                    const goData = await parseEnrichment(file, layout, { signal: controller.signal });
+                    commit(prev => ({
                         ...prev,
+                        sources: claimSource(prev.sources, source('go', compId)),
                         comparisons: {
                             ...prev.comparisons,
                             [compId]: { ...prev.comparisons[compId], goTerms: goData }
@@ -366,9 +795,10 @@ export default function App() {
                     }));
                 }
                 else if (type === 'comparison_kegg') {
-                    const keggData = await parseEnrichment(file);
-                    setProcessedData(prev => ({
+                    const keggData = await parseEnrichment(file, layout, { signal: controller.signal });
+                    commit(prev => ({
                         ...prev,
+                        sources: claimSource(prev.sources, source('kegg', compId)),
                         comparisons: {
                             ...prev.comparisons,
                             [compId]: { ...prev.comparisons[compId], keggPathways: keggData }
@@ -379,16 +809,87 @@ export default function App() {
                 throw new Error("File processing logic error.");
             }
 
-            setUploadStatus(prev => prev.map(s => s.id === fileId ? { ...s, status: 'success' } : s));
+            controller.signal.throwIfAborted();
+            setUploadStatus(prev => prev.map(s => s.id === fileId ? { ...s, status: 'success', message: successMessage, progress: undefined } : s));
         } catch (error: any) {
+            // Cancelled from the file list; the entry is gone or being re-parsed
+            if (controller.signal.aborted) return;
             console.error(error);
             setUploadStatus(prev => prev.map(s => s.id === fileId ? { ...s, status: 'error', message: error.message || 'Parsing failed' } : s));
+        } finally {
+            // A reassignment may already have started a newer parse of this file
+            if (parseControllers.current[fileId] === controller) delete parseControllers.current[fileId];
         }
-    }
+  };
+
+  // Open the column-mapping step for an already uploaded DGE / GO / KEGG file
+  const openColumnMapping = async (fileId: string) => {
+    const file = fileStore.current[fileId];
+    const status = uploadStatus.find(s => s.id === fileId);
+    if (!file || !status) return;
+    const preview = await readSheetPreview(file, status.type === 'comparison_dge' ? 'dge' : 'enrichment');
+    setMappingQueue(prev => [{ fileId, preview }, ...prev.filter(m => m.fileId !== fileId)]);
+  };
+
+  const confirmColumnMapping = (layout: TableLayout, preview: SheetPreview) => {
+    const profile: MappingProfile = { ...layout, key: `${preview.kind}:${preview.signature}`, kind: preview.kind, headers: preview.headers };
+    mappingProfilesRef.current = { ...mappingProfilesRef.current, [profile.key]: profile };
+    setMappingProfiles(mappingProfilesRef.current);
+
+    // Apply the new profile to the confirmed file and any queued file sharing its header
+    const [active, ...rest] = mappingQueue;
+    const matching = rest.filter(m => `${m.preview.kind}:${m.preview.signature}` === profile.key);
+    setMappingQueue(rest.filter(m => !matching.includes(m)));
+    [active, ...matching].forEach(({ fileId }) => {
+        const status = uploadStatus.find(s => s.id === fileId);
+        const file = fileStore.current[fileId];
+        if (status && file) processFile(file, fileId, status.type, status.assignedTo || null, layout);
+    });
+  };
+
+  const skipColumnMapping = () => {
+    const [active, ...rest] = mappingQueue;
+    setMappingQueue(rest);
+    setUploadStatus(prev => prev.map(s => s.id === active.fileId && s.status === 'pending' ? { ...s, status: 'error', message: 'Column mapping skipped' } : s));
+  };
+
+  // Undo exactly what a file contributed: only sections it is still the recorded source of
+  const retractFile = (fileId: string) => {
+    if (processedData.sources.some(src => src.fileId === fileId && src.section === 'template')) setCustomTemplate(null);
+    setProcessedData(prev => {
+        const owned = prev.sources.filter(src => src.fileId === fileId);
+        if (owned.length === 0) return prev;
+        const cleared = owned.reduce(withoutSource, { ...prev, sources: prev.sources.filter(src => src.fileId !== fileId) });
+        // A removed DGE summary may have created comparisons that no file holds data for
+        const touched = owned.some(src => src.section === 'dgeSummary')
+            ? Object.keys(cleared.comparisons)
+            : owned.map(src => src.target).filter((id): id is string => !!id && !!cleared.comparisons[id]);
+        return pruneComparisons(cleared, touched);
+    });
+  };
+
+  // Change an upload's type or comparison by hand and re-parse the retained File under the new target
+  const reassignFile = (id: string, type: FileUploadStatus['type'], assignedTo?: string) => {
+    const status = uploadStatus.find(s => s.id === id);
+    const file = fileStore.current[id];
+    if (!status || !file) return;
+    if (status.type === type && (status.assignedTo || '') === (assignedTo || '')) return;
+
+    parseControllers.current[id]?.abort();
+    retractFile(id);
+    setMappingQueue(prev => prev.filter(m => m.fileId !== id));
+    setUploadStatus(prev => prev.map(s => s.id === id
+        ? { ...s, type, assignedTo, status: 'pending', message: undefined, progress: undefined, detection: { confidence: 1, reason: 'Set manually' } }
+        : s));
+    processFile(file, id, type, assignedTo || null);
   };
 
   const removeFile = (id: string) => {
+    parseControllers.current[id]?.abort();
+    retractFile(id);
     setUploadStatus(prev => prev.filter(s => s.id !== id));
+    setMappingQueue(prev => prev.filter(m => m.fileId !== id));
+    delete fileStore.current[id];
   };
 
   const getDeliverablesStructure = () => {
@@ -403,13 +904,14 @@ export default function App() {
         const name = f.name;
         const low = name.toLowerCase();
         const type = f.type;
-        if (low.includes('fastq') || low.includes('fq') || low.includes('md5')) categories["01_Raw_Data"].push(name);
+        if (type === 'fastqc') categories["07_Project_Reports"].push(name);
+        else if (low.includes('fastq') || low.includes('fq') || low.includes('md5')) categories["01_Raw_Data"].push(name);
         else if (low.includes('genome') || low.includes('gtf') || low.includes('gff') || low.includes('fasta') || low.endsWith('.fa')) categories["02_Reference_Genome"].push(name);
         else if (type === 'mapping' || low.includes('bam') || low.includes('sam') || low.includes('align') || low.includes('stringtie')) categories["03_Mapping_Assembly"].push(name);
         else if (low.includes('count') || low.includes('tpm') || low.includes('fpkm') || low.includes('matrix')) categories["04_Quantification"].push(name);
         else if (type === 'comparison_dge' || type === 'dge_summary' || low.includes('dge') || low.includes('volcano') || low.includes('heatmap')) categories["05_Differential_Expression"].push(name);
         else if (type === 'comparison_go' || type === 'comparison_kegg' || low.includes('go_') || low.includes('kegg')) categories["06_Functional_Analysis"].push(name);
-        else if (type === 'stats' || low.includes('report') || low.includes('multiqc')) categories["07_Project_Reports"].push(name);
+        else if (type === 'stats' || type === 'sample_sheet' || low.includes('report') || low.includes('multiqc')) categories["07_Project_Reports"].push(name);
         else categories["08_Supplementary"].push(name);
     });
     
@@ -443,7 +945,20 @@ export default function App() {
     setDeliverablesTree(tree);
   };
 
+  const validationIssues = step === Step.GENERATE
+    ? validateReport({
+        metadata,
+        stats,
+        derivedStats,
+        data: processedData,
+        uploads: uploadStatus,
+        placeholders: { metadata: INITIAL_METADATA, stats: INITIAL_STATS }
+      })
+    : [];
+  const validationErrors = validationIssues.filter(issue => issue.severity === 'error').length;
+
   const handleGenerate = () => {
+    if (validationErrors > 0 && !window.confirm(`${validationErrors} validation error${validationErrors === 1 ? '' : 's'} remain. Generate the report anyway?`)) return;
     setIsGenerating(true);
     setTimeout(() => {
       try {
@@ -469,9 +984,17 @@ export default function App() {
         html = html.replace(/{{SAMPLE_TYPE}}/g, metadata.sampleType);
         html = html.replace(/{{SHIPPING_CONDITION}}/g, metadata.shippingCondition);
 
-        // Extract Sample Names
-        const sampleNames = processedData.dataStatsTable.length > 1 
-            ? processedData.dataStatsTable.slice(1).map(row => row[0]).join(', ') 
+        // Sample IDs are shown under their aliases everywhere in the report
+        const aliases = processedData.sampleAliases;
+        const samples = processedData.samples.map(s => ({ ...s, id: aliasOf(aliases, s.id) }));
+        const dataStats = aliasTable(processedData.dataStatsTable, aliases);
+        const mappingStats = aliasTable(processedData.mappingStatsTable, aliases);
+
+        // Extract Sample Names: the sample sheet when present, otherwise the sample column of the data stats table
+        const sampleNames = samples.length > 0
+            ? samples.map(s => s.id).join(', ')
+            : dataStats.length > 1 
+            ? dataStats.slice(1).map(row => row[sampleColumn(dataStats)]).join(', ') 
             : 'Information not available';
 
         const deliverablesMap = getDeliverablesStructure();
@@ -483,14 +1006,50 @@ export default function App() {
                 files: files 
             }));
 
+        // Full DGE records stay in the builder; the report only needs plot points and the effective thresholds
+        const comparisonOrder = orderedComparisonIds(processedData);
+        const reportComparisons = Object.fromEntries(Object.entries(processedData.comparisons).map(([id, comp]) => {
+            const { records, ...rest } = comp as ComparisonData;
+            const thresholds = rest.thresholds || defaultThresholds;
+            const yStatistic = rest.dgeInfo?.yStatistic || 'pAdj';
+            return [id, {
+                ...rest,
+                thresholds,
+                thresholdLabel: formatThresholds(thresholds, yStatistic),
+                statNote: rest.dgeInfo ? describeDGEColumns(rest.dgeInfo, thresholds) : '',
+                yAxisLabel: Y_AXIS_LABELS[yStatistic],
+                maXLabel: rest.dgeInfo?.baseExprLabel || 'Log CPM'
+            }];
+        }));
+
         const injectionData = {
           metadata: { ...metadata, sampleNames }, 
           stats: stats,
-          dataStats: processedData.dataStatsTable,
-          mappingStats: processedData.mappingStatsTable,
+          samples,
+          dataStats,
+          mappingStats,
+          qc: evaluateQC(dataStats, mappingStats, qcRules),
+          qcRules: qcRules.filter(rule => rule.enabled).map(describeQCRule),
+          qcCurves: aliasCurves(processedData.qcCurves, aliases),
+          fastqc: [...processedData.fastqcReports]
+            .sort((a, b) => a.sample.localeCompare(b.sample, undefined, { numeric: true }))
+            .map(({ sourceId, ...report }) => ({ ...report, sample: aliasOf(aliases, report.sample) })),
           transcriptStats: processedData.transcriptStats,
-          dgeSummary: processedData.dgeSummaryTable,
-          comparisons: processedData.comparisons,
+          novelIsoforms: processedData.novelIsoforms,
+          locusModels: processedData.novelIsoforms
+            ? buildLocusModels(processedData.novelIsoforms, (Object.values(processedData.transcriptModels) as TranscriptModel[][]).flat())
+            : {},
+          classCodeLabels: CLASS_CODE_LABELS,
+          // Summary rows follow the comparison order; rows without a matching comparison keep their place at the end
+          dgeSummary: [...processedData.dgeSummaryTable].sort((a, b) => {
+              const rank = (row: { comp: string }) => {
+                  const idx = comparisonOrder.indexOf(processedData.comparisons[row.comp] ? row.comp : detectComparisonId(String(row.comp)) || '');
+                  return idx < 0 ? comparisonOrder.length : idx;
+              };
+              return rank(a) - rank(b);
+          }),
+          comparisons: reportComparisons,
+          comparisonOrder,
           deliverables: deliverablesList,
           tree: deliverablesTree
         };
@@ -519,28 +1078,146 @@ export default function App() {
             safeText('stat-data', stats.totalDataGB + ' GB');
             safeText('stat-mapping', stats.mappingRate);
             safeText('stat-transcripts', stats.mergedTranscripts.toLocaleString());
-            safeText('novel-count', stats.novelIsoforms.toLocaleString());
+
+            // --- Experimental Design Table ---
+            const samples = data.samples || [];
+            const designTable = document.getElementById('designTable');
+            if(designTable && samples.length > 0) {
+                const covariates = samples.flatMap(s => Object.keys(s.covariates || {})).filter((k, i, all) => all.indexOf(k) === i);
+                const columns = [
+                    ['Sample', s => s.id],
+                    ['Condition', s => s.condition],
+                    ...(samples.some(s => s.replicate) ? [['Replicate', s => s.replicate || '']] : []),
+                    ...(samples.some(s => s.batch) ? [['Batch', s => s.batch || '']] : []),
+                    ...covariates.map(k => [k, s => (s.covariates || {})[k] || ''])
+                ];
+                designTable.innerHTML = \`
+                    <thead><tr>\${columns.map(([h]) => \`<th>\${h}</th>\`).join('')}</tr></thead>
+                    <tbody>\${samples.map(s => \`<tr>\${columns.map(([, get]) => \`<td>\${get(s)}</td>\`).join('')}</tr>\`).join('')}</tbody>
+                \`;
+                const conditions = samples.map(s => s.condition).filter((c, i, all) => c && all.indexOf(c) === i);
+                safeText('design-summary', \`\${samples.length} samples • \${conditions.length} conditions\`);
+                const designCard = document.getElementById('design-card');
+                if(designCard) designCard.style.display = '';
+            }
+
+            // --- Per-sample QC (rules evaluated in the builder) ---
+            const qcBySample = Object.fromEntries((data.qc || []).map(q => [q.sample, q]));
+            const hasQC = (data.qc || []).length > 0;
+            const QC_BADGES = { pass: 'badge-success', warn: 'badge-warning', fail: 'badge-danger' };
+            const sampleColOf = (headers) => Math.max(0, headers.findIndex(h => /sample/i.test(String(h))));
+            const qcBadge = (sample) => {
+                const q = qcBySample[String(sample).trim()];
+                if(!q) return '';
+                const detail = q.checks.map(c => \`\${c.label}: \${c.value} (\${c.status})\`).join('; ');
+                return \`<span class="badge \${QC_BADGES[q.status]}" title="\${detail}">\${q.status}</span>\`;
+            };
+            const sampleTable = (table) => {
+                const headers = table[0];
+                const sampleIdx = sampleColOf(headers);
+                return \`
+                    <thead><tr>\${headers.map(h => \`<th>\${h}</th>\`).join('')}\${hasQC ? '<th>QC</th>' : ''}</tr></thead>
+                    <tbody>\${table.slice(1).map(row => \`<tr>\${row.map(c => \`<td>\${c}</td>\`).join('')}\${hasQC ? \`<td>\${qcBadge(row[sampleIdx])}</td>\` : ''}</tr>\`).join('')}</tbody>
+                \`;
+            };
+
+            const qcCard = document.getElementById('qc-summary-card');
+            if(qcCard && hasQC) {
+                const counts = { pass: 0, warn: 0, fail: 0 };
+                data.qc.forEach(q => counts[q.status]++);
+                const countsEl = document.getElementById('qc-summary-counts');
+                if(countsEl) countsEl.innerHTML = ['pass', 'warn', 'fail']
+                    .map(s => \`<span class="badge \${QC_BADGES[s]}" style="margin-left:6px;">\${counts[s]} \${s}</span>\`).join('');
+                const flagged = data.qc.filter(q => q.status !== 'pass');
+                const body = document.getElementById('qc-summary-body');
+                if(body) body.innerHTML = \`
+                    <p style="font-size:13px; margin-bottom:8px;">\${flagged.length === 0 ? \`All \${data.qc.length} samples pass QC.\` : \`\${flagged.length} of \${data.qc.length} samples flagged:\`}</p>
+                    \${flagged.map(q => \`<div style="font-size:12px; padding:4px 0; border-top:1px solid var(--border-light);">
+                        <span class="badge \${QC_BADGES[q.status]}">\${q.status}</span> <strong>\${q.sample}</strong>:
+                        \${q.checks.filter(c => c.status !== 'pass').map(c => \`\${c.label} \${c.value}\`).join(', ')}
+                    </div>\`).join('')}
+                    <p style="font-size:11px; color:var(--text-light); margin-top:8px;">Rules: \${(data.qcRules || []).join(' • ')}</p>
+                \`;
+                qcCard.style.display = '';
+            }
 
             // --- 2. Data & QC Table (Robust Injection) ---
             const dataTable = document.getElementById('dataTable');
             if(dataTable && data.dataStats && data.dataStats.length > 0) {
-                const headers = data.dataStats[0];
-                const rows = data.dataStats.slice(1);
-                dataTable.innerHTML = \`
-                    <thead><tr>\${headers.map(h => \`<th>\${h}</th>\`).join('')}</tr></thead>
-                    <tbody>\${rows.map(row => \`<tr>\${row.map(c => \`<td>\${c}</td>\`).join('')}</tr>\`).join('')}</tbody>
+                dataTable.innerHTML = sampleTable(data.dataStats);
+            }
+
+            // --- Per-sample QC curves (MultiQC plot data and FastQC distributions) ---
+            const qcCurvePalette = ['#1E3A8A', '#F97316', '#3B82F6', '#10B981', '#8B5CF6', '#EF4444', '#0EA5E9', '#EAB308'];
+            // One line per sample; returns whether anything was drawn so the caller can show the card
+            const drawQCCurves = (canvasId, bySample, xTitle, yTitle, yMax) => {
+                const ctx = document.getElementById(canvasId);
+                const samples = Object.keys(bySample || {}).filter(s => bySample[s].length > 0);
+                if(!ctx || samples.length === 0) return false;
+                new Chart(ctx, {
+                    type: 'scatter',
+                    data: {
+                        datasets: samples.map((sample, idx) => {
+                            // Flagged samples keep their QC colour so they stand out among the curves
+                            const q = qcBySample[sample];
+                            const color = q && q.status === 'fail' ? '#EF4444' : q && q.status === 'warn' ? '#F59E0B' : qcCurvePalette[idx % qcCurvePalette.length];
+                            return { label: sample, data: bySample[sample].map(([x, y]) => ({ x, y })), showLine: true, pointRadius: 0, borderWidth: 1.5, borderColor: color, backgroundColor: color };
+                        })
+                    },
+                    options: {
+                        responsive: true,
+                        maintainAspectRatio: false,
+                        plugins: { legend: { position: 'top', labels: { boxWidth: 10 } } },
+                        scales: {
+                            x: { title: { display: true, text: xTitle } },
+                            y: { min: 0, suggestedMax: yMax, title: { display: true, text: yTitle } }
+                        }
+                    }
+                });
+                return true;
+            };
+            // Custom templates may leave out any of these containers; missing ones are skipped
+            const showElement = id => {
+                const el = document.getElementById(id);
+                if(el) el.style.display = '';
+            };
+            const showCards = (wrapperId, cardIds) => {
+                if(cardIds.length === 0 || !document.getElementById(wrapperId)) return;
+                showElement(wrapperId);
+                cardIds.forEach(showElement);
+            };
+            const qcCurves = data.qcCurves || {};
+            showCards('qc-curves', [
+                drawQCCurves('qualityCurveChart', qcCurves.quality, 'Position in read (bp)', 'Mean Phred score', 40) && 'quality-curve-card',
+                drawQCCurves('adapterCurveChart', qcCurves.adapter, 'Position in read (bp)', '% reads with adapter', 10) && 'adapter-curve-card'
+            ].filter(Boolean));
+
+            // --- FastQC module status grid and overlaid distributions ---
+            const fastqc = data.fastqc || [];
+            const fastqcTable = document.getElementById('fastqcStatusTable');
+            if(fastqcTable && fastqc.length > 0) {
+                const modules = [];
+                fastqc.forEach(r => r.modules.forEach(m => { if(!modules.includes(m.name)) modules.push(m.name); }));
+                fastqcTable.innerHTML = \`
+                    <thead><tr><th>Sample</th>\${modules.map(m => \`<th style="font-size:11px;">\${m}</th>\`).join('')}</tr></thead>
+                    <tbody>\${fastqc.map(r => \`<tr><td>\${r.sample}</td>\${modules.map(name => {
+                        const mod = r.modules.find(m => m.name === name);
+                        return \`<td>\${mod ? \`<span class="badge \${QC_BADGES[mod.status]}">\${mod.status}</span>\` : ''}</td>\`;
+                    }).join('')}</tr>\`).join('')}</tbody>
                 \`;
+                showElement('fastqc-card');
+                const curvesOf = key => Object.fromEntries(fastqc.map(r => [r.sample, r[key]]));
+                showCards('fastqc-curves', [
+                    drawQCCurves('fastqcQualityChart', curvesOf('perBaseQuality'), 'Position in read (bp)', 'Mean Phred score', 40) && 'fastqc-quality-card',
+                    drawQCCurves('fastqcGcChart', curvesOf('gcContent'), 'Mean GC content (%)', '% of reads') && 'fastqc-gc-card',
+                    drawQCCurves('fastqcLengthChart', curvesOf('lengthDistribution'), 'Read length (bp)', '% of reads') && 'fastqc-length-card'
+                ].filter(Boolean));
             }
 
             // --- 3. Mapping Table (Robust Injection) ---
             const mappingTable = document.getElementById('mappingTable');
             if(mappingTable && data.mappingStats && data.mappingStats.length > 0) {
-                const headers = data.mappingStats[0];
-                const rows = data.mappingStats.slice(1);
-                mappingTable.innerHTML = \`
-                    <thead><tr>\${headers.map(h => \`<th>\${h}</th>\`).join('')}</tr></thead>
-                    <tbody>\${rows.map(row => \`<tr>\${row.map(c => \`<td>\${c}</td>\`).join('')}</tr>\`).join('')}</tbody>
-                \`;
+                mappingTable.innerHTML = sampleTable(data.mappingStats);
             }
 
             // --- Mapping Chart ---
@@ -549,12 +1226,17 @@ export default function App() {
                 // Try to find columns for Sample, Unique %, Total Mapped %
                 // Heuristic: Look for "Unique" and "%" or "Total" and "%"
                 const headers = data.mappingStats[0].map(h => h.toLowerCase());
-                const sampleIdx = 0; // Assume first col is sample
+                const sampleIdx = sampleColOf(data.mappingStats[0]);
                 const uniqueIdx = headers.findIndex(h => h.includes('unique') && h.includes('%'));
                 const mappedIdx = headers.findIndex(h => (h.includes('mapped') || h.includes('total')) && h.includes('%'));
 
                 if(uniqueIdx !== -1 && mappedIdx !== -1) {
                     const samples = data.mappingStats.slice(1).map(r => r[sampleIdx]);
+                    // Bars of samples flagged by QC take the warn / fail colour
+                    const qcColors = (pass, warn, fail) => samples.map(s => {
+                        const q = qcBySample[String(s).trim()];
+                        return !q || q.status === 'pass' ? pass : q.status === 'warn' ? warn : fail;
+                    });
                     const uniqueVals = data.mappingStats.slice(1).map(r => parseFloat(r[uniqueIdx]));
                     const mappedVals = data.mappingStats.slice(1).map(r => parseFloat(r[mappedIdx]));
 
@@ -566,12 +1248,12 @@ export default function App() {
                                 {
                                     label: 'Unique Mapped %',
                                     data: uniqueVals,
-                                    backgroundColor: '#1E3A8A',
+                                    backgroundColor: qcColors('#1E3A8A', '#F59E0B', '#EF4444'),
                                 },
                                 {
                                     label: 'Total Mapped %',
                                     data: mappedVals,
-                                    backgroundColor: '#3B82F6',
+                                    backgroundColor: qcColors('#3B82F6', '#FCD34D', '#FCA5A5'),
                                 }
                             ]
                         },
@@ -588,23 +1270,242 @@ export default function App() {
             // --- Transcript Stats Table ---
             const transcriptTable = document.getElementById('transcriptTable');
             if(transcriptTable && data.transcriptStats && data.transcriptStats.length > 0) {
+                const pct = (n, total) => total ? \` <span style="color:var(--text-light)">(\${(n / total * 100).toFixed(1)}%)</span>\` : '';
                 transcriptTable.innerHTML = data.transcriptStats.map(stat => \`
                     <tr>
                         <td>\${stat.name}</td>
                         <td class="cell-num">\${stat.count.toLocaleString()}</td>
-                        <td class="cell-num">\${stat.totalLen.toLocaleString()}</td>
+                        <td class="cell-num">\${stat.geneCount.toLocaleString()}</td>
+                        <td class="cell-num">\${stat.transcriptsPerGene}</td>
+                        <td class="cell-num">\${stat.exonsPerTranscript}</td>
+                        <td class="cell-num">\${stat.monoExonic.toLocaleString()}\${pct(stat.monoExonic, stat.count)}</td>
+                        <td class="cell-num">\${stat.multiExonic.toLocaleString()}\${pct(stat.multiExonic, stat.count)}</td>
                         <td class="cell-num">\${stat.meanLen.toLocaleString()}</td>
+                        <td class="cell-num">\${stat.n50.toLocaleString()}</td>
                         <td class="cell-num">\${stat.maxLen.toLocaleString()}</td>
                     </tr>
                 \`).join('');
             }
 
+            // --- Transcript Length & Biotype Charts ---
+            const transcriptPalette = ['#1E3A8A', '#F97316', '#3B82F6', '#10B981', '#8B5CF6', '#EF4444'];
+            const lengthCtx = document.getElementById('transcriptLengthChart');
+            if(lengthCtx && data.transcriptStats && data.transcriptStats.length > 0) {
+                new Chart(lengthCtx, {
+                    type: 'bar',
+                    data: {
+                        labels: data.transcriptStats[0].lengthBins.map(b => b.label + ' bp'),
+                        datasets: data.transcriptStats.map((stat, idx) => ({
+                            label: stat.name,
+                            data: stat.lengthBins.map(b => b.count),
+                            backgroundColor: transcriptPalette[idx % transcriptPalette.length]
+                        }))
+                    },
+                    options: {
+                        responsive: true,
+                        maintainAspectRatio: false,
+                        plugins: { legend: { position: 'top' } },
+                        scales: { y: { title: { display: true, text: 'Transcripts' } } }
+                    }
+                });
+            }
+
+            const biotypeCtx = document.getElementById('transcriptBiotypeChart');
+            // Transcript-level biotypes where the annotation has them, gene-level otherwise
+            const biotypesOf = stat => Object.keys(stat.transcriptBiotypes).length > 0 ? stat.transcriptBiotypes : stat.geneBiotypes;
+            const withBiotypes = (data.transcriptStats || []).filter(stat => Object.keys(biotypesOf(stat)).length > 0);
+            if(biotypeCtx && withBiotypes.length > 0) {
+                const totals = {};
+                withBiotypes.forEach(stat => Object.entries(biotypesOf(stat)).forEach(([k, v]) => { totals[k] = (totals[k] || 0) + v; }));
+                const top = Object.keys(totals).sort((a, b) => totals[b] - totals[a]).slice(0, 8);
+                const hasOther = Object.keys(totals).length > top.length;
+                new Chart(biotypeCtx, {
+                    type: 'bar',
+                    data: {
+                        labels: hasOther ? [...top, 'other'] : top,
+                        datasets: withBiotypes.map((stat, idx) => {
+                            const counts = biotypesOf(stat);
+                            const values = top.map(k => counts[k] || 0);
+                            if(hasOther) values.push(Object.entries(counts).filter(([k]) => !top.includes(k)).reduce((sum, [, v]) => sum + v, 0));
+                            return { label: stat.name, data: values, backgroundColor: transcriptPalette[idx % transcriptPalette.length] };
+                        })
+                    },
+                    options: {
+                        indexAxis: 'y',
+                        responsive: true,
+                        maintainAspectRatio: false,
+                        plugins: { legend: { position: 'top' } },
+                        scales: { x: { stacked: true }, y: { stacked: true } }
+                    }
+                });
+            }
+
+            // --- Locus Viewer: SVG exon models, no external libraries ---
+            const locusModels = data.locusModels || {};
+            const locusOf = t => locusModels[t.refGeneId || t.geneId];
+            const locusView = { locus: null, selected: null, start: 0, end: 0 };
+
+            const drawLocus = () => {
+                const host = document.getElementById('locus-svg');
+                const { locus, selected, start, end } = locusView;
+                if(!host || !locus) return;
+                const width = host.clientWidth || 800;
+                const labelW = 150, trackH = 22, axisH = 28;
+                const plotW = width - labelW - 10;
+                const height = axisH + locus.transcripts.length * trackH + 6;
+                const x = pos => labelW + (pos - start) / (end - start) * plotW;
+
+                // Axis ticks on a round step
+                const rawStep = (end - start) / 6;
+                const mag = Math.pow(10, Math.floor(Math.log10(rawStep)));
+                const step = [1, 2, 5, 10].map(m => m * mag).find(s => s >= rawStep) || rawStep;
+                const ticks = [];
+                for(let p = Math.ceil(start / step) * step; p <= end; p += step) ticks.push(Math.round(p));
+
+                const tracks = locus.transcripts.map((t, i) => {
+                    const y = axisH + i * trackH + trackH / 2;
+                    const color = t.novel ? '#F97316' : '#1E3A8A';
+                    const tStart = t.exons[0][0];
+                    const tEnd = t.exons.reduce((m, e) => Math.max(m, e[1]), 0);
+                    const x1 = Math.max(labelW, x(tStart)), x2 = Math.min(labelW + plotW, x(tEnd));
+                    const arrows = [];
+                    const dir = t.strand === '-' ? -1 : 1;
+                    if(t.strand === '+' || t.strand === '-') {
+                        for(let ax = x1 + 12; ax < x2 - 4; ax += 40) {
+                            arrows.push(\`<polyline points="\${ax - 3 * dir},\${y - 3} \${ax},\${y} \${ax - 3 * dir},\${y + 3}" fill="none" stroke="\${color}" stroke-width="1"/>\`);
+                        }
+                    }
+                    const exons = t.exons.map(e => \`<rect x="\${x(e[0])}" y="\${y - 6}" width="\${Math.max(1, x(e[1] + 1) - x(e[0]))}" height="12" fill="\${color}"><title>\${t.id} exon \${e[0].toLocaleString()}-\${e[1].toLocaleString()}</title></rect>\`).join('');
+                    const isSelected = selected && t.id === selected.id;
+                    return \`
+                        \${isSelected ? \`<rect x="0" y="\${y - trackH / 2}" width="\${width}" height="\${trackH}" fill="#FFF7ED"/>\` : ''}
+                        <text x="\${labelW - 8}" y="\${y + 4}" text-anchor="end" font-size="11" fill="\${isSelected ? '#C2410C' : '#475569'}" font-weight="\${isSelected ? 700 : 400}">\${t.id}\${t.classCode ? ' (' + t.classCode + ')' : ''}</text>
+                        <g clip-path="url(#locusClip)">
+                            \${x2 > x1 ? \`<line x1="\${x1}" y1="\${y}" x2="\${x2}" y2="\${y}" stroke="\${color}" stroke-width="1"/>\` : ''}
+                            \${arrows.join('')}
+                            \${exons}
+                        </g>\`;
+                }).join('');
+
+                host.innerHTML = \`
+                    <svg width="\${width}" height="\${height}" xmlns="http://www.w3.org/2000/svg" style="font-family:inherit; display:block;">
+                        <defs><clipPath id="locusClip"><rect x="\${labelW}" y="0" width="\${plotW}" height="\${height}"/></clipPath></defs>
+                        <line x1="\${labelW}" y1="\${axisH - 8}" x2="\${labelW + plotW}" y2="\${axisH - 8}" stroke="#CBD5E1"/>
+                        \${ticks.map(p => \`<g><line x1="\${x(p)}" y1="\${axisH - 12}" x2="\${x(p)}" y2="\${axisH - 8}" stroke="#94A3B8"/><text x="\${x(p)}" y="\${axisH - 15}" text-anchor="middle" font-size="10" fill="#64748B">\${p.toLocaleString()}</text></g>\`).join('')}
+                        \${tracks}
+                    </svg>\`;
+            };
+
+            // Zoom around the view centre (or a given genomic position), never beyond the locus or below 50 bp
+            const zoomLocus = (factor, center) => {
+                const { locus } = locusView;
+                if(!locus) return;
+                const pad = Math.max(50, Math.round((locus.end - locus.start) * 0.05));
+                const minPos = locus.start - pad, maxPos = locus.end + pad;
+                const mid = center !== undefined ? center : (locusView.start + locusView.end) / 2;
+                const span = Math.min(maxPos - minPos, Math.max(50, (locusView.end - locusView.start) * factor));
+                let start = mid - (mid - locusView.start) * (span / (locusView.end - locusView.start));
+                start = Math.max(minPos, Math.min(start, maxPos - span));
+                locusView.start = start;
+                locusView.end = start + span;
+                drawLocus();
+            };
+
+            const resetLocus = () => {
+                const { locus } = locusView;
+                const pad = Math.max(50, Math.round((locus.end - locus.start) * 0.05));
+                locusView.start = locus.start - pad;
+                locusView.end = locus.end + pad;
+                drawLocus();
+            };
+
+            const showLocus = (t) => {
+                const viewer = document.getElementById('locus-viewer');
+                locusView.locus = locusOf(t);
+                locusView.selected = t;
+                if(viewer) viewer.style.display = '';
+                safeText('locus-title', \`\${t.refGeneId || t.geneId} · \${locusView.locus.chrom}:\${locusView.locus.start.toLocaleString()}-\${locusView.locus.end.toLocaleString()}\`);
+                resetLocus();
+            };
+
+            const bindClick = (id, fn) => { const el = document.getElementById(id); if(el) el.addEventListener('click', fn); };
+            bindClick('locus-zoom-in', () => zoomLocus(0.5));
+            bindClick('locus-zoom-out', () => zoomLocus(2));
+            bindClick('locus-reset', () => { if(locusView.locus) resetLocus(); });
+            const locusHost = document.getElementById('locus-svg');
+            if(locusHost) locusHost.addEventListener('wheel', (e) => {
+                if(!locusView.locus) return;
+                e.preventDefault();
+                const rect = locusHost.getBoundingClientRect();
+                const labelW = 150, plotW = (locusHost.clientWidth || 800) - labelW - 10;
+                const frac = Math.min(1, Math.max(0, (e.clientX - rect.left - labelW) / plotW));
+                zoomLocus(e.deltaY < 0 ? 0.8 : 1.25, locusView.start + frac * (locusView.end - locusView.start));
+            }, { passive: false });
+
+            // --- Novel Isoforms: class code breakdown & searchable table ---
+            const novel = data.novelIsoforms;
+            const novelSection = document.getElementById('novel-isoforms');
+            if(novelSection) novelSection.style.display = novel ? '' : 'none';
+            if(novel) {
+                const classLabel = code => code ? \`\${code} · \${data.classCodeLabels[code] || 'Unclassified'}\` : 'No class code';
+                const codes = Object.keys(novel.classCodes).sort((a, b) => novel.classCodes[b] - novel.classCodes[a]);
+                const classCtx = document.getElementById('novelClassChart');
+                if(classCtx && codes.length > 0) {
+                    new Chart(classCtx, {
+                        type: 'bar',
+                        data: {
+                            labels: codes.map(classLabel),
+                            datasets: [{ label: 'Transcripts', data: codes.map(c => novel.classCodes[c]), backgroundColor: '#F97316' }]
+                        },
+                        options: {
+                            indexAxis: 'y',
+                            responsive: true,
+                            maintainAspectRatio: false,
+                            plugins: { legend: { display: false } }
+                        }
+                    });
+                }
+
+                const novelTable = document.getElementById('novelTable');
+                const novelSearch = document.getElementById('novelSearch');
+                const NOVEL_ROW_LIMIT = 200;
+                const renderNovel = () => {
+                    const q = (novelSearch ? novelSearch.value : '').trim().toLowerCase();
+                    const rows = q
+                        ? novel.transcripts.filter(t => [t.id, t.geneId, t.refGeneId, t.refTranscriptId, t.classCode, t.locus].some(v => v && String(v).toLowerCase().includes(q)))
+                        : novel.transcripts;
+                    if(novelTable) novelTable.innerHTML = rows.slice(0, NOVEL_ROW_LIMIT).map(t => \`
+                        <tr data-transcript="\${t.id}" style="\${locusOf(t) ? 'cursor:pointer;' : ''}">
+                            <td>\${t.id}</td>
+                            <td><span class="badge" title="\${classLabel(t.classCode)}">\${t.classCode || '-'}</span></td>
+                            <td>\${t.refGeneId || '-'}</td>
+                            <td>\${t.refTranscriptId || '-'}</td>
+                            <td style="font-family:monospace; font-size:12px;">\${t.locus} (\${t.strand})</td>
+                            <td class="cell-num">\${t.exons}</td>
+                            <td class="cell-num">\${t.length.toLocaleString()}</td>
+                        </tr>
+                    \`).join('');
+                    safeText('novelCount', rows.length > NOVEL_ROW_LIMIT
+                        ? \`Showing \${NOVEL_ROW_LIMIT} of \${rows.length.toLocaleString()} transcripts\`
+                        : \`\${rows.length.toLocaleString()} transcripts\`);
+                };
+                if(novelSearch) novelSearch.addEventListener('input', renderNovel);
+                if(novelTable) novelTable.addEventListener('click', (e) => {
+                    const row = e.target.closest('tr[data-transcript]');
+                    const t = row && novel.transcripts.find(x => x.id === row.dataset.transcript);
+                    if(t && locusOf(t)) showLocus(t);
+                });
+                renderNovel();
+            }
+
             // --- 4. DGE Table & Logic ---
+            // Readable comparison names instead of IDs like "C1" or "KO_vs_WT"
+            const compLabel = (comp) => data.comparisons && data.comparisons[comp] ? data.comparisons[comp].name : comp;
             const dgeTable = document.querySelector('#dgeSummaryTable tbody');
             if(dgeTable && data.dgeSummary) {
                 dgeTable.innerHTML = data.dgeSummary.map(r => 
                     \`<tr>
-                        <td>\${r.comp}</td>
+                        <td>\${compLabel(r.comp)}</td>
                         <td class="cell-num">\${r.total}</td>
                         <td class="cell-num">\${r.downTotal}</td>
                         <td class="cell-num">\${r.upTotal}</td>
@@ -621,7 +1522,7 @@ export default function App() {
                  new Chart(ctxOverview, {
                     type: 'bar',
                     data: {
-                        labels: data.dgeSummary.map(r => r.comp),
+                        labels: data.dgeSummary.map(r => compLabel(r.comp)),
                         datasets: [{
                             label: 'Sig Up',
                             data: data.dgeSummary.map(r => r.sigUp),
@@ -646,9 +1547,51 @@ export default function App() {
 
             // Comparison Toggles
             const compToggles = document.getElementById('compToggles');
-            const compIds = Object.keys(data.comparisons).sort((a,b) => a.localeCompare(b, undefined, {numeric: true}));
+            const compIds = (data.comparisonOrder || Object.keys(data.comparisons)).filter(id => data.comparisons[id]);
             
             if(compToggles && compIds.length > 0) {
+                // Point details for tooltips and the pinned detail card
+                const formatP = (v) => v === undefined ? 'NA' : (v < 0.001 ? v.toExponential(2) : v.toFixed(4));
+                const describePoint = (p, fc, comp) => {
+                    const yStat = comp.dgeInfo ? comp.dgeInfo.yStatistic : 'pAdj';
+                    const rows = [];
+                    if(p.symbol) rows.push(['Symbol', p.symbol]);
+                    if(p.biotype) rows.push(['Biotype', p.biotype]);
+                    rows.push(['Log2 FC', fc]);
+                    if(p.pValue !== undefined) rows.push(['P-value', formatP(p.pValue)]);
+                    if(p.pAdj !== undefined) rows.push([yStat === 'prob' ? '1 - NOISeq prob' : 'Adj. P-value', formatP(p.pAdj)]);
+                    if(p.baseExpr !== undefined) rows.push([comp.maXLabel || 'Expression', p.baseExpr]);
+                    return rows;
+                };
+                const pinPoint = (p, fc, comp) => {
+                    const card = document.getElementById('dge-point-card');
+                    if(!card) return;
+                    card.innerHTML = \`
+                        <div class="card-header" style="padding:10px;">
+                            <div style="font-size:13px; font-weight:700;">\${p.label}</div>
+                            <button class="btn btn-icon" onclick="document.getElementById('dge-point-card').style.display='none'" title="Close"><i data-lucide="x"></i></button>
+                        </div>
+                        <table class="details-table">\${describePoint(p, fc, comp).map(([k, v]) => \`<tr><td width="40%">\${k}</td><td>\${v}</td></tr>\`).join('')}
+                            <tr><td>Status</td><td>\${p.sig ? '<span class="badge badge-danger">Significant</span>' : 'Not significant'}</td></tr>
+                        </table>\`;
+                    card.style.display = 'block';
+                    if(window.lucide) window.lucide.createIcons();
+                };
+                const pointInteraction = (comp, fcOf) => ({
+                    onClick: (evt, elements, chart) => {
+                        if(!elements.length) return;
+                        const el = elements[0];
+                        const p = chart.data.datasets[el.datasetIndex].data[el.index];
+                        pinPoint(p, fcOf(p), comp);
+                    },
+                    tooltip: {
+                        callbacks: {
+                            title: (items) => items.length ? items[0].raw.label : '',
+                            label: (item) => describePoint(item.raw, fcOf(item.raw), comp).map(([k, v]) => \`\${k}: \${v}\`)
+                        }
+                    }
+                });
+
                 window.updateDGE = (compId, btn) => {
                      if(btn) {
                         document.querySelectorAll('.comp-btn').forEach(b => {
@@ -664,6 +1607,22 @@ export default function App() {
 
                      const descEl = document.getElementById('comp-desc');
                      if(descEl) descEl.innerText = \`\${comp.name}: \${comp.description} (\${comp.sigCount} Significant)\`;
+                     safeText('volcano-thresholds', comp.thresholdLabel || '');
+                     safeText('ma-thresholds', comp.thresholdLabel || '');
+                     safeText('dge-stat-note', comp.statNote || '');
+                     const contrastEl = document.getElementById('contrast-samples');
+                     if(contrastEl) {
+                        const samplesIn = (condition) => samples.filter(s => s.condition === condition).map(s => s.id);
+                        const side = (condition) => {
+                            const ids = samplesIn(condition);
+                            return \`<strong>\${condition}</strong> (n=\${ids.length}): \${ids.join(', ') || '–'}\`;
+                        };
+                        const linked = comp.numerator && comp.denominator;
+                        contrastEl.innerHTML = linked ? \`Samples in this contrast: \${side(comp.numerator)} <em>vs</em> \${side(comp.denominator)}\` : '';
+                        contrastEl.style.display = linked ? '' : 'none';
+                     }
+                     const pointCard = document.getElementById('dge-point-card');
+                     if(pointCard) pointCard.style.display = 'none';
 
                      // Charts
                      const commonOptions = {
@@ -672,6 +1631,9 @@ export default function App() {
                         plugins: { legend: { display: false } }
                      };
 
+                     const volcanoInteraction = pointInteraction(comp, p => p.x);
+                     const maInteraction = pointInteraction(comp, p => p.y);
+
                      // Volcano
                      const volChartInstance = Chart.getChart("volcanoPlot");
                      if (volChartInstance) volChartInstance.destroy();
@@ -695,7 +1657,9 @@ export default function App() {
                             },
                             options: {
                                 ...commonOptions,
-                                scales: { x: { title: {display:true, text:'Log2 Fold Change'} }, y: { title: {display:true, text:'-Log10 FDR'} } }
+                                onClick: volcanoInteraction.onClick,
+                                plugins: { ...commonOptions.plugins, tooltip: volcanoInteraction.tooltip },
+                                scales: { x: { title: {display:true, text:'Log2 Fold Change'} }, y: { title: {display:true, text: comp.yAxisLabel || '-Log10 FDR'} } }
                             }
                         });
                      }
@@ -723,7 +1687,9 @@ export default function App() {
                             },
                             options: {
                                 ...commonOptions,
-                                scales: { x: { title: {display:true, text:'Log CPM'} }, y: { title: {display:true, text:'Log2 Fold Change'} } }
+                                onClick: maInteraction.onClick,
+                                plugins: { ...commonOptions.plugins, tooltip: maInteraction.tooltip },
+                                scales: { x: { title: {display:true, text: comp.maXLabel || 'Log CPM'} }, y: { title: {display:true, text:'Log2 Fold Change'} } }
                             }
                         });
                      }
@@ -768,17 +1734,22 @@ export default function App() {
                      }
                 };
 
+                // Toggle buttons, one row per comparison group (in order of first appearance) when groups are set
+                const toggleButton = (id) =>
+                    \`<button class="comp-btn \${id === compIds[0] ? 'active' : ''}" title="\${data.comparisons[id].description}" onclick="window.updateDGE('\${id}', this)">\${data.comparisons[id].name || id}</button>\`;
+                const groupOf = (id) => data.comparisons[id].group || '';
+                const groups = compIds.map(groupOf).filter((g, i, all) => all.indexOf(g) === i);
+                const toggleMarkup = groups.some(g => g)
+                    ? groups.map(g => \`<div class="comp-group"><span class="comp-group-label">\${g || 'Other'}</span>\${compIds.filter(id => groupOf(id) === g).map(toggleButton).join('')}</div>\`).join('')
+                    : compIds.map(toggleButton).join('');
+
                 // Inject Toggles into DGE section
-                compToggles.innerHTML = compIds.map((id, idx) => 
-                    \`<button class="comp-btn \${idx === 0 ? 'active' : ''}" onclick="window.updateDGE('\${id}', this)">\${id}</button>\`
-                ).join('');
+                compToggles.innerHTML = toggleMarkup;
                 
                 // Inject Toggles into Functional Section
                 const funcToggles = document.getElementById('funcCompToggles');
                 if(funcToggles) {
-                    funcToggles.innerHTML = compIds.map((id, idx) => 
-                        \`<button class="comp-btn \${idx === 0 ? 'active' : ''}" onclick="window.updateDGE('\${id}', this)">\${id}</button>\`
-                    ).join('');
+                    funcToggles.innerHTML = toggleMarkup;
                 }
                 
                 // Initialize with first comparison
@@ -861,7 +1832,7 @@ export default function App() {
         </div>
 
         {/* Wizard Progress */}
-        <StepWizard currentStep={step} steps={['Metadata', 'Key Stats', 'Data Upload', 'Deliverables', 'Generate']} />
+        <StepWizard currentStep={step} steps={STEP_LABELS} />
 
         {/* Main Content Card */}
         <div className="bg-white rounded-2xl shadow-xl shadow-slate-200/50 border border-slate-200 overflow-hidden relative min-h-[600px] transition-all duration-300 flex flex-col">
@@ -895,17 +1866,66 @@ export default function App() {
                 <Layout className="mr-2 text-brand-blue" /> Executive Statistics
               </h2>
               <div className="grid grid-cols-2 gap-6">
-                {Object.entries(stats).map(([key, val]) => (
+                {(Object.entries(stats) as [keyof ProjectStats, string | number][]).map(([key, val]) => {
+                   const derived = derivedStats[key];
+                   const overridden = statOverrides.includes(key);
+                   return (
                    <div key={key} className="p-5 border border-slate-100 rounded-xl bg-slate-50 hover:border-brand-blue/30 hover:bg-white hover:shadow-md transition-all group cursor-pointer">
-                    <label className="block text-xs font-bold uppercase text-slate-400 mb-2 group-hover:text-brand-blue">{key.replace(/([A-Z])/g, ' $1')}</label>
+                    <div className="flex justify-between items-start gap-2 mb-2">
+                      <label className="block text-xs font-bold uppercase text-slate-400 group-hover:text-brand-blue">{key.replace(/([A-Z])/g, ' $1')}</label>
+                      {derived && !overridden && (
+                        <span title={derived.basis} className="text-[10px] px-2 py-0.5 rounded-full bg-green-50 text-green-700 border border-green-100 truncate max-w-[60%]">
+                          Derived from {derived.fileName}
+                        </span>
+                      )}
+                      {derived && overridden && (
+                        <button
+                          onClick={() => setStatOverrides(prev => prev.filter(k => k !== key))}
+                          title={`${derived.basis} (${derived.fileName})`}
+                          className="text-[10px] px-2 py-0.5 rounded-full bg-orange-50 text-orange-700 border border-orange-100 hover:bg-orange-100 truncate max-w-[60%]"
+                        >
+                          Manual override · use derived {derived.value}
+                        </button>
+                      )}
+                    </div>
                     <input 
                       type={typeof val === 'number' ? 'number' : 'text'}
                       className="w-full bg-transparent text-xl font-bold text-slate-800 focus:outline-none"
                       value={val}
-                      onChange={e => setStats({...stats, [key]: e.target.type === 'number' ? Number(e.target.value) : e.target.value})}
+                      onChange={e => updateStat(key, e.target.type === 'number' ? Number(e.target.value) : e.target.value)}
                     />
                   </div>
-                ))}
+                   );
+                })}
+              </div>
+
+              <div className="mt-8 grid grid-cols-2 gap-6">
+                <div className="p-5 border border-slate-100 rounded-xl bg-slate-50">
+                  <div className="text-xs font-bold uppercase text-slate-400 mb-3">Per-sample QC Rules</div>
+                  <QCRulesEditor rules={qcRules} onChange={setQcRules} />
+                  <button onClick={() => setQcRules(DEFAULT_QC_RULES)} className="mt-3 text-[10px] text-brand-blue hover:underline">Reset to defaults</button>
+                </div>
+                <div className="p-5 border border-slate-100 rounded-xl bg-slate-50">
+                  <div className="text-xs font-bold uppercase text-slate-400 mb-3">QC Status by Sample</div>
+                  {(() => {
+                    const results = evaluateQC(processedData.dataStatsTable, processedData.mappingStatsTable, qcRules);
+                    if (results.length === 0) return <p className="text-xs italic text-slate-400">Upload data or mapping statistics to evaluate the rules.</p>;
+                    const badge = { pass: 'bg-green-50 text-green-700 border-green-100', warn: 'bg-orange-50 text-orange-700 border-orange-100', fail: 'bg-red-50 text-red-700 border-red-100' };
+                    return (
+                      <div className="flex flex-wrap gap-1.5 max-h-40 overflow-y-auto">
+                        {results.map(q => (
+                          <span
+                            key={q.sample}
+                            title={q.checks.map(c => `${c.label}: ${c.value} (${c.status})`).join('\n')}
+                            className={`text-[10px] font-mono px-2 py-0.5 rounded-full border ${badge[q.status]}`}
+                          >
+                            {processedData.sampleAliases[q.sample] || q.sample} · {q.status}
+                          </span>
+                        ))}
+                      </div>
+                    );
+                  })()}
+                </div>
               </div>
             </div>
           )}
@@ -939,7 +1959,7 @@ export default function App() {
                          </div>
                          <p className="text-sm font-bold text-slate-700">Click or Drag Files Here</p>
                          <p className="text-xs text-slate-500 mt-1 max-w-[200px]">
-                             Supports: .xlsx, .csv, .txt, .html, .gtf
+                             Supports: .xlsx, .csv, .txt, .html, .gtf, .gff3, STAR / HISAT2 logs (optionally .gz)
                          </p>
                       </div>
                   </div>
@@ -951,6 +1971,9 @@ export default function App() {
                         </h3>
                         <div className="overflow-y-auto space-y-2 pr-2">
                             {uploadStatus.length === 0 && <div className="text-slate-600 text-xs italic text-center py-8">No files uploaded yet</div>}
+                            <datalist id="comparison-ids">
+                                {Object.keys(processedData.comparisons).map(id => <option key={id} value={id} />)}
+                            </datalist>
                             {uploadStatus.map((status) => (
                                 <div key={status.id} className="flex items-center justify-between text-xs bg-slate-800/50 p-3 rounded-lg border border-slate-700/50 hover:bg-slate-800 transition-colors">
                                     <div className="flex items-center space-x-3 overflow-hidden">
@@ -959,15 +1982,55 @@ export default function App() {
                                          <div className="w-4 h-4 border-2 border-t-transparent border-white rounded-full animate-spin shrink-0"></div>}
                                         <div className="flex flex-col min-w-0">
                                             <span className="truncate font-medium text-slate-200">{status.name}</span>
-                                            <span className="text-[10px] text-slate-400 capitalize flex items-center gap-1 mt-0.5">
-                                                {status.type.replace('_', ' ')}
-                                                {status.assignedTo && <span className="px-1.5 py-0.5 bg-brand-blue/30 rounded text-blue-200 border border-brand-blue/20">{status.assignedTo}</span>}
+                                            <span className="text-[10px] text-slate-400 flex items-center gap-1 mt-0.5">
+                                                <select
+                                                    value={status.type}
+                                                    onChange={e => reassignFile(status.id, e.target.value as FileUploadStatus['type'], status.assignedTo)}
+                                                    disabled={!fileStore.current[status.id]}
+                                                    title="Change file type"
+                                                    className="bg-transparent text-slate-400 hover:text-slate-200 border border-transparent hover:border-slate-600 rounded px-0.5 py-0.5 focus:outline-none focus:border-blue-400 cursor-pointer"
+                                                >
+                                                    {(Object.keys(TYPE_LABELS) as FileUploadStatus['type'][]).map(t => <option key={t} value={t} className="text-slate-800">{TYPE_LABELS[t]}</option>)}
+                                                </select>
+                                                {status.type.startsWith('comparison_') && (
+                                                    <input
+                                                        key={status.assignedTo || ''}
+                                                        defaultValue={status.assignedTo || ''}
+                                                        placeholder="C?"
+                                                        list="comparison-ids"
+                                                        title="Comparison ID (Enter to apply)"
+                                                        onBlur={e => reassignFile(status.id, status.type, e.target.value.trim() || undefined)}
+                                                        onKeyDown={e => { if (e.key === 'Enter') (e.target as HTMLInputElement).blur(); }}
+                                                        className="w-12 px-1.5 py-0.5 bg-brand-blue/30 rounded text-blue-200 border border-brand-blue/20 placeholder-blue-300/50 focus:outline-none focus:border-blue-400"
+                                                    />
+                                                )}
                                             </span>
+                                            {status.detection && (
+                                                <span className={`text-[10px] mt-0.5 truncate ${status.detection.confidence < 0.5 ? 'text-orange-300' : 'text-slate-500'}`} title={status.detection.reason}>
+                                                    {Math.round(status.detection.confidence * 100)}% · {status.detection.reason}
+                                                </span>
+                                            )}
+                                            {status.status === 'pending' && status.progress !== undefined && (
+                                                <div className="flex items-center gap-2 mt-1">
+                                                    <div className="h-1 w-24 bg-slate-700 rounded-full overflow-hidden">
+                                                        <div className="h-full bg-blue-400 transition-all" style={{ width: `${Math.round(status.progress * 100)}%` }}></div>
+                                                    </div>
+                                                    <span className="text-[10px] text-slate-400 font-mono">{Math.round(status.progress * 100)}%</span>
+                                                </div>
+                                            )}
+                                            {status.message && <span className={`text-[10px] mt-0.5 truncate ${status.status === 'error' ? 'text-red-300' : 'text-slate-500'}`}>{status.message}</span>}
                                         </div>
                                     </div>
-                                    <button onClick={() => removeFile(status.id)} className="text-slate-600 hover:text-red-400 ml-2 p-1 hover:bg-slate-700 rounded transition-colors">
-                                        <Trash2 size={14} />
-                                    </button>
+                                    <div className="flex items-center ml-2 shrink-0">
+                                        {(status.type === 'comparison_dge' || status.type === 'comparison_go' || status.type === 'comparison_kegg') && fileStore.current[status.id] && (
+                                            <button onClick={() => openColumnMapping(status.id)} title="Map columns" className="text-slate-600 hover:text-blue-300 p-1 hover:bg-slate-700 rounded transition-colors">
+                                                <Columns size={14} />
+                                            </button>
+                                        )}
+                                        <button onClick={() => removeFile(status.id)} className="text-slate-600 hover:text-red-400 p-1 hover:bg-slate-700 rounded transition-colors">
+                                            <Trash2 size={14} />
+                                        </button>
+                                    </div>
                                 </div>
                             ))}
                         </div>
@@ -985,9 +2048,35 @@ export default function App() {
                             <div className="text-xs font-bold text-slate-500 uppercase mb-2">Global Data</div>
                             <div className="space-y-2 text-xs">
                                 <div className="flex items-center justify-between">
-                                    <span className="text-slate-600">Data Stats</span>
+                                    <span className="text-slate-600">
+                                        Sample Sheet
+                                        <button onClick={() => setEditingSamples(true)} className="ml-2 text-[10px] text-brand-blue hover:underline">
+                                            {processedData.samples.length > 0 ? `Edit (${processedData.samples.length})` : 'Enter'}
+                                        </button>
+                                    </span>
+                                    {processedData.samples.length > 0 ? <CheckCircle2 size={14} className="text-green-500"/> : <div className="w-3 h-3 rounded-full border border-slate-300"></div>}
+                                </div>
+                                <div className="flex items-center justify-between">
+                                    <span className="text-slate-600">
+                                        Sample Aliases
+                                        <button onClick={() => setEditingAliases(true)} className="ml-2 text-[10px] text-brand-blue hover:underline">
+                                            {Object.keys(processedData.sampleAliases).length > 0 ? `Edit (${Object.keys(processedData.sampleAliases).length})` : 'Enter'}
+                                        </button>
+                                    </span>
+                                    {Object.keys(processedData.sampleAliases).length > 0 ? <CheckCircle2 size={14} className="text-green-500"/> : <div className="w-3 h-3 rounded-full border border-slate-300"></div>}
+                                </div>
+                                <div className="flex items-center justify-between">
+                                    <span className="text-slate-600">Data Stats{processedData.dataStatsParts.length > 1 && <span className="text-slate-400"> ({processedData.dataStatsParts.length} tables joined)</span>}</span>
                                     {processedData.dataStatsTable.length > 0 ? <CheckCircle2 size={14} className="text-green-500"/> : <div className="w-3 h-3 rounded-full border border-slate-300"></div>}
                                 </div>
+                                <div className="flex items-center justify-between">
+                                    <span className="text-slate-600">FastQC Reports</span>
+                                    {processedData.fastqcReports.length > 0 ? <CheckCircle2 size={14} className="text-green-500"/> : <div className="w-3 h-3 rounded-full border border-slate-300"></div>}
+                                </div>
+                                <div className="flex items-center justify-between">
+                                    <span className="text-slate-600">QC Curves</span>
+                                    {Object.keys(processedData.qcCurves).length > 0 ? <CheckCircle2 size={14} className="text-green-500"/> : <div className="w-3 h-3 rounded-full border border-slate-300"></div>}
+                                </div>
                                 <div className="flex items-center justify-between">
                                     <span className="text-slate-600">Mapping Stats</span>
                                     {processedData.mappingStatsTable.length > 0 ? <CheckCircle2 size={14} className="text-green-500"/> : <div className="w-3 h-3 rounded-full border border-slate-300"></div>}
@@ -1004,11 +2093,11 @@ export default function App() {
                         </div>
 
                         {/* Comparisons Tracker */}
-                        {Object.values(processedData.comparisons).map((comp: ComparisonData) => (
+                        {orderedComparisonIds(processedData).map(id => processedData.comparisons[id]).map((comp: ComparisonData) => (
                             <div key={comp.id} className="bg-white p-3 rounded-lg border border-slate-200 shadow-sm">
-                                <div className="text-xs font-bold text-slate-800 mb-2 flex justify-between">
-                                    <span>{comp.id}</span>
-                                    <span className="font-normal text-slate-400 text-[10px]">{comp.name}</span>
+                                <div className="text-xs font-bold text-slate-800 mb-2 flex justify-between gap-2">
+                                    <span className="truncate">{comp.name}</span>
+                                    <span className="font-normal text-slate-400 text-[10px] font-mono truncate">{comp.id}</span>
                                 </div>
                                 <div className="space-y-2 text-xs">
                                     <div className="flex items-center justify-between">
@@ -1039,13 +2128,39 @@ export default function App() {
                         {Object.keys(processedData.comparisons).length === 0 && <span className="text-xs text-orange-500 font-medium">Waiting for DGE files...</span>}
                     </div>
                     
+                    <div className="bg-white p-3 rounded-lg border border-slate-200 shadow-sm mb-4 shrink-0">
+                        <div className="text-xs font-bold text-slate-500 uppercase mb-2">Default Significance Thresholds</div>
+                        <ThresholdEditor value={defaultThresholds} onChange={updateDefaultThresholds} />
+                    </div>
+
                     <div className="overflow-y-auto pr-2 flex-1 space-y-4">
-                        {Object.values(processedData.comparisons).map((comp: ComparisonData) => (
-                            <div key={comp.id} className="bg-white p-4 rounded-xl border border-slate-200 shadow-sm hover:shadow-md hover:border-brand-blue/30 transition-all">
+                        <datalist id="comparison-groups">
+                            {Array.from(new Set(Object.values(processedData.comparisons).map((c: ComparisonData) => c.group).filter(Boolean))).map(g => <option key={g} value={g} />)}
+                        </datalist>
+                        {orderedComparisonIds(processedData).map((id, idx, ids) => {
+                            const comp = processedData.comparisons[id];
+                            const conditions = Array.from(new Set(processedData.samples.map(s => s.condition).filter(Boolean)));
+                            return (
+                            <div
+                                key={comp.id}
+                                draggable
+                                onDragStart={() => setDraggedComp(comp.id)}
+                                onDragEnd={() => setDraggedComp(null)}
+                                onDragOver={(e) => { if (draggedComp && draggedComp !== comp.id) e.preventDefault(); }}
+                                onDrop={(e) => { e.preventDefault(); if (draggedComp) reorderComparison(draggedComp, comp.id); setDraggedComp(null); }}
+                                className={`bg-white p-4 rounded-xl border shadow-sm hover:shadow-md hover:border-brand-blue/30 transition-all ${draggedComp === comp.id ? 'opacity-50 border-brand-blue' : 'border-slate-200'}`}
+                            >
                                 <div className="flex justify-between items-center mb-2">
-                                    <div className="flex items-center gap-2">
-                                        <span className="w-8 h-8 rounded-lg bg-brand-blue/10 flex items-center justify-center font-bold text-brand-blue text-xs">{comp.id}</span>
-                                        <span className="text-xs bg-slate-100 px-2 py-0.5 rounded text-slate-500 font-mono">{comp.sigCount} Sig</span>
+                                    <div className="flex items-center gap-2 min-w-0">
+                                        <GripVertical size={14} className="text-slate-300 cursor-grab shrink-0" />
+                                        <span className="w-8 h-8 shrink-0 rounded-lg bg-brand-blue/10 flex items-center justify-center font-bold text-brand-blue text-xs">{idx + 1}</span>
+                                        <span className="text-xs text-slate-500 font-mono truncate" title={comp.id}>{comp.id}</span>
+                                        <span className="text-xs bg-slate-100 px-2 py-0.5 rounded text-slate-500 font-mono shrink-0">{comp.sigCount} Sig</span>
+                                    </div>
+                                    <div className="flex items-center shrink-0">
+                                        <button onClick={() => moveComparison(comp.id, -1)} disabled={idx === 0} title="Move up" className="p-1 text-slate-400 hover:text-brand-blue disabled:opacity-30 disabled:cursor-not-allowed"><ChevronUp size={14} /></button>
+                                        <button onClick={() => moveComparison(comp.id, 1)} disabled={idx === ids.length - 1} title="Move down" className="p-1 text-slate-400 hover:text-brand-blue disabled:opacity-30 disabled:cursor-not-allowed"><ChevronDown size={14} /></button>
+                                        <button onClick={() => deleteComparison(comp.id)} title="Delete comparison" className="p-1 text-slate-400 hover:text-red-500"><Trash2 size={14} /></button>
                                     </div>
                                 </div>
                                 <div className="space-y-2 mb-3">
@@ -1063,25 +2178,124 @@ export default function App() {
                                         onChange={(e) => updateComparisonDetails(comp.id, 'description', e.target.value)}
                                         placeholder="Description (e.g. Treatment vs Control)"
                                     />
+                                    <div className="flex gap-2">
+                                        <input
+                                            type="text"
+                                            list="comparison-groups"
+                                            className="flex-1 min-w-0 text-xs px-2 py-1 bg-slate-50 border border-slate-200 rounded focus:border-brand-blue focus:outline-none text-slate-600 placeholder-slate-400"
+                                            value={comp.group || ''}
+                                            onChange={(e) => updateComparisonDetails(comp.id, 'group', e.target.value)}
+                                            placeholder="Group (e.g. Timepoint 24h)"
+                                        />
+                                        {ids.length > 1 && (
+                                            <select
+                                                value=""
+                                                onChange={(e) => e.target.value && mergeComparison(comp.id, e.target.value)}
+                                                title="Merge this comparison into another"
+                                                className="w-28 text-xs px-1 py-1 bg-slate-50 border border-slate-200 rounded focus:border-brand-blue focus:outline-none text-slate-500"
+                                            >
+                                                <option value="">Merge into…</option>
+                                                {ids.filter(other => other !== comp.id).map(other => (
+                                                    <option key={other} value={other}>{processedData.comparisons[other].name}</option>
+                                                ))}
+                                            </select>
+                                        )}
+                                    </div>
+                                    {conditions.length > 0 && (
+                                        <div className="flex items-center gap-2 text-xs">
+                                            <select
+                                                value={comp.numerator || ''}
+                                                onChange={(e) => updateComparisonDetails(comp.id, 'numerator', e.target.value)}
+                                                title="Numerator (test) condition"
+                                                className="flex-1 min-w-0 px-1 py-1 bg-slate-50 border border-slate-200 rounded focus:border-brand-blue focus:outline-none text-slate-600"
+                                            >
+                                                <option value="">Numerator…</option>
+                                                {conditions.map(c => <option key={c} value={c}>{c} (n={processedData.samples.filter(s => s.condition === c).length})</option>)}
+                                            </select>
+                                            <span className="text-slate-400">vs</span>
+                                            <select
+                                                value={comp.denominator || ''}
+                                                onChange={(e) => updateComparisonDetails(comp.id, 'denominator', e.target.value)}
+                                                title="Denominator (reference) condition"
+                                                className="flex-1 min-w-0 px-1 py-1 bg-slate-50 border border-slate-200 rounded focus:border-brand-blue focus:outline-none text-slate-600"
+                                            >
+                                                <option value="">Denominator…</option>
+                                                {conditions.map(c => <option key={c} value={c}>{c} (n={processedData.samples.filter(s => s.condition === c).length})</option>)}
+                                            </select>
+                                        </div>
+                                    )}
+                                </div>
+                                <div className="mb-3">
+                                    <div className="flex justify-between items-center mb-1">
+                                        <span className="text-[10px] font-bold uppercase text-slate-400">Thresholds {comp.thresholds ? '(custom)' : '(project default)'}</span>
+                                        {comp.thresholds && (
+                                            <button onClick={() => updateComparisonThresholds(comp.id, undefined)} className="text-[10px] text-brand-blue hover:underline">
+                                                Use default
+                                            </button>
+                                        )}
+                                    </div>
+                                    <ThresholdEditor
+                                        value={comp.thresholds || defaultThresholds}
+                                        onChange={(t) => updateComparisonThresholds(comp.id, t)}
+                                    />
                                 </div>
                                 <div className="grid grid-cols-1 gap-1.5">
                                     <div className={`flex items-center text-xs px-2 py-1 rounded ${comp.volcanoPoints.length ? 'bg-green-50 text-green-700' : 'bg-slate-50 text-slate-400'}`}>
                                         <div className={`w-1.5 h-1.5 rounded-full mr-2 ${comp.volcanoPoints.length ? 'bg-green-500' : 'bg-slate-300'}`}></div> {comp.volcanoPoints.length} Points
                                     </div>
+                                    {comp.dgeInfo && (comp.dgeInfo.yStatistic !== 'pAdj' || comp.dgeInfo.linearFoldChange) && (
+                                        <div className="text-[10px] px-2 py-1 rounded bg-orange-50 text-orange-700">
+                                            {describeDGEColumns(comp.dgeInfo, comp.thresholds || defaultThresholds)}
+                                        </div>
+                                    )}
                                 </div>
                             </div>
-                        ))}
+                            );
+                        })}
                         {Object.keys(processedData.comparisons).length === 0 && (
                             <div className="flex flex-col items-center justify-center text-slate-400 py-12 border-2 border-dashed border-slate-200 rounded-xl bg-slate-50/50">
                                 <Package size={32} className="mb-2 opacity-50"/>
                                 <p className="text-sm font-medium">No Comparisons Detected</p>
-                                <p className="text-xs mt-1">Upload files like "Comparison1_DGE.xlsx"</p>
+                                <p className="text-xs mt-1">Upload files like "Comparison1_DGE.xlsx" or "KO_vs_WT_DGE.xlsx"</p>
                             </div>
                         )}
                     </div>
                 </div>
 
               </div>
+
+              {editingSamples && (
+                  <SampleSheetEditor
+                      samples={processedData.samples}
+                      suggestedIds={tableSampleIds(processedData)}
+                      onSave={saveSamples}
+                      onCancel={() => setEditingSamples(false)}
+                  />
+              )}
+
+              {editingAliases && (
+                  <SampleAliasEditor
+                      aliases={processedData.sampleAliases}
+                      sampleIds={Array.from(new Set([...processedData.samples.map(s => s.id), ...tableSampleIds(processedData)]))}
+                      onSave={saveAliases}
+                      onCancel={() => setEditingAliases(false)}
+                  />
+              )}
+
+              {mappingQueue.length > 0 && (() => {
+                  const active = mappingQueue[0];
+                  const status = uploadStatus.find(s => s.id === active.fileId);
+                  return (
+                      <ColumnMappingDialog
+                          key={active.fileId}
+                          fileName={status?.name || ''}
+                          preview={active.preview}
+                          initial={mappingProfiles[`${active.preview.kind}:${active.preview.signature}`]}
+                          onConfirm={confirmColumnMapping}
+                          onCancel={skipColumnMapping}
+                      />
+                  );
+              })()}
             </div>
           )}
 
@@ -1155,6 +2369,21 @@ export default function App() {
                             {processedData.dgeSummaryTable.length > 0 ? 'Ready' : 'Not Found'}
                         </span>
                     </div>
+                    <div className="pt-2">
+                        <div className="text-xs font-bold uppercase text-slate-400 mb-1">Sources</div>
+                        {processedData.sources.length === 0 && <div className="text-xs italic text-slate-400">No parsed files yet</div>}
+                        {[...processedData.sources]
+                            .sort((a, b) => Object.keys(SECTION_LABELS).indexOf(a.section) - Object.keys(SECTION_LABELS).indexOf(b.section) || (a.target || '').localeCompare(b.target || '', undefined, { numeric: true }))
+                            .map(src => (
+                                <div key={`${src.section}:${src.target || ''}`} className="flex justify-between gap-4 py-0.5 text-xs">
+                                    <span>
+                                        {SECTION_LABELS[src.section]}
+                                        {src.target && src.section !== 'transcriptStats' && src.section !== 'dataStats' && <span className="ml-1 px-1 bg-blue-50 text-brand-blue rounded font-mono">{src.target}</span>}
+                                    </span>
+                                    <span className="font-mono text-slate-700 truncate" title={src.fileName}>{src.fileName}</span>
+                                </div>
+                            ))}
+                    </div>
                     <div className="pt-2">
                          <span className="text-xs font-semibold text-brand-blue bg-blue-50 px-2 py-1 rounded">
                             {customTemplate ? 'Custom Template Active' : 'Unigenome Pro Template'}
@@ -1162,6 +2391,34 @@ export default function App() {
                     </div>
                 </div>
 
+                <div className="w-full max-w-2xl mb-8">
+                    <div className="flex items-center justify-between mb-2">
+                        <span className="text-xs font-bold uppercase text-slate-400">Validation</span>
+                        <span className="text-xs text-slate-500">
+                            {validationIssues.length === 0
+                                ? 'All checks passed'
+                                : `${validationErrors} error${validationErrors === 1 ? '' : 's'}, ${validationIssues.length - validationErrors} warning${validationIssues.length - validationErrors === 1 ? '' : 's'}`}
+                        </span>
+                    </div>
+                    {validationIssues.length === 0 ? (
+                        <div className="flex items-center text-sm text-green-700 bg-green-50 border border-green-100 rounded-xl px-4 py-3">
+                            <CheckCircle2 size={16} className="mr-2 shrink-0" /> Tables, comparisons and metadata are consistent.
+                        </div>
+                    ) : (
+                        <div className="max-h-56 overflow-y-auto border border-slate-200 rounded-xl divide-y divide-slate-100">
+                            {validationIssues.map((issue, idx) => (
+                                <div key={idx} className="flex items-start gap-2 px-4 py-2 text-xs">
+                                    <AlertCircle size={14} className={`mt-0.5 shrink-0 ${issue.severity === 'error' ? 'text-red-500' : 'text-orange-400'}`} />
+                                    <span className={`flex-1 ${issue.severity === 'error' ? 'text-red-700' : 'text-slate-600'}`}>{issue.message}</span>
+                                    <button onClick={() => setStep(issue.step)} className="shrink-0 text-brand-blue hover:underline whitespace-nowrap">
+                                        Fix in {STEP_LABELS[issue.step]}
+                                    </button>
+                                </div>
+                            ))}
+                        </div>
+                    )}
+                </div>
+
                 <button 
                     onClick={handleGenerate}
                     disabled={isGenerating}
@@ -0,0 +1,145 @@
+import React, { useState } from 'react';
+import { Columns, X } from 'lucide-react';
+import { ColumnMapping, ColumnRole, SheetPreview, TableLayout } from '../types';
+import { previewFromRows, TABLE_ROLES } from '../utils/excelParser';
+
+interface Props {
+  fileName: string;
+  preview: SheetPreview;
+  initial?: TableLayout;
+  onConfirm: (layout: TableLayout, preview: SheetPreview) => void;
+  onCancel: () => void;
+}
+
+const ROLE_LABELS: Record<ColumnRole, string> = {
+  id: 'Gene / Transcript ID',
+  logFC: 'Log2 Fold Change',
+  pAdj: 'FDR / Adj. P-value / NOISeq prob',
+  pValue: 'Raw P-value',
+  baseExpr: 'baseMean / logCPM',
+  symbol: 'Gene Symbol',
+  biotype: 'Biotype',
+  term: 'Term / Pathway',
+  count: 'Gene Count',
+  category: 'Category'
+};
+
+// DGE tables additionally need either an adjusted or a raw p-value column
+const REQUIRED_ROLES: Record<SheetPreview['kind'], ColumnRole[]> = {
+  dge: ['logFC'],
+  enrichment: ['term']
+};
+
+export const ColumnMappingDialog: React.FC<Props> = ({ fileName, preview, initial, onConfirm, onCancel }) => {
+  const [current, setCurrent] = useState<SheetPreview>(() =>
+    initial && initial.headerRow !== preview.headerRow ? previewFromRows(preview.rows, preview.kind, initial.headerRow) : preview
+  );
+  const [mapping, setMapping] = useState<ColumnMapping>(initial?.mapping || preview.detected);
+
+  const roles = TABLE_ROLES[current.kind];
+  const missing = REQUIRED_ROLES[current.kind].filter(r => !mapping[r]);
+  if (current.kind === 'dge' && !mapping.pAdj && !mapping.pValue) missing.push('pAdj');
+  const dataRows = current.rows.slice(current.headerRow + 1, current.headerRow + 6);
+  const roleOf = (header: string) => roles.find(r => mapping[r] === header);
+
+  const changeHeaderRow = (row: number) => {
+    const next = previewFromRows(current.rows, current.kind, row);
+    setCurrent(next);
+    setMapping(next.detected);
+  };
+
+  return (
+    <div className="fixed inset-0 z-50 bg-slate-900/50 backdrop-blur-sm flex items-center justify-center p-6">
+      <div className="bg-white rounded-2xl shadow-2xl w-full max-w-4xl max-h-full flex flex-col overflow-hidden">
+        <div className="flex justify-between items-center px-6 py-4 border-b border-slate-100">
+          <div>
+            <h3 className="text-lg font-bold text-slate-800 flex items-center"><Columns size={18} className="mr-2 text-brand-blue" /> Map Columns</h3>
+            <p className="text-xs text-slate-500 mt-0.5 font-mono">{fileName}</p>
+          </div>
+          <button onClick={onCancel} className="text-slate-400 hover:text-slate-700 p-1 rounded hover:bg-slate-100"><X size={18} /></button>
+        </div>
+
+        <div className="p-6 overflow-y-auto space-y-5">
+          {current.fallbacks.length > 0 && (
+            <div className="text-xs bg-orange-50 border border-orange-100 text-orange-700 px-3 py-2 rounded-lg">
+              Could not identify {current.fallbacks.map(r => ROLE_LABELS[r]).join(', ')} by name; the guess below is based on column position.
+            </div>
+          )}
+
+          <div>
+            <label className="block text-xs font-bold uppercase text-slate-400 mb-2">Header Row</label>
+            <select
+              className="w-full px-3 py-2 text-sm bg-slate-50 border border-slate-200 rounded-lg focus:outline-none focus:border-brand-blue"
+              value={current.headerRow}
+              onChange={e => changeHeaderRow(Number(e.target.value))}
+            >
+              {current.rows.map((row, idx) => (
+                <option key={idx} value={idx}>Row {idx + 1}: {(row || []).slice(0, 6).join(' | ')}</option>
+              ))}
+            </select>
+          </div>
+
+          <div className="overflow-x-auto border border-slate-200 rounded-lg">
+            <table className="text-xs w-full">
+              <thead className="bg-slate-50">
+                <tr>
+                  {current.headers.map((h, idx) => (
+                    <th key={idx} className={`px-3 py-2 text-left font-semibold whitespace-nowrap ${roleOf(h) ? 'text-brand-blue' : 'text-slate-600'}`}>
+                      {h}
+                      {roleOf(h) && <div className="text-[10px] font-normal text-brand-orange">{ROLE_LABELS[roleOf(h) as ColumnRole]}</div>}
+                    </th>
+                  ))}
+                </tr>
+              </thead>
+              <tbody>
+                {dataRows.map((row, rIdx) => (
+                  <tr key={rIdx} className="border-t border-slate-100">
+                    {current.headers.map((_, cIdx) => (
+                      <td key={cIdx} className="px-3 py-1.5 font-mono text-slate-600 whitespace-nowrap">{row && row[cIdx] !== undefined ? String(row[cIdx]) : ''}</td>
+                    ))}
+                  </tr>
+                ))}
+              </tbody>
+            </table>
+          </div>
+
+          <div className="grid grid-cols-2 gap-4">
+            {roles.map(role => (
+              <div key={role}>
+                <label className="block text-xs font-bold uppercase text-slate-400 mb-1">
+                  {ROLE_LABELS[role]} {REQUIRED_ROLES[current.kind].includes(role) && <span className="text-red-400">*</span>}
+                </label>
+                <select
+                  className="w-full px-3 py-2 text-sm bg-slate-50 border border-slate-200 rounded-lg focus:outline-none focus:border-brand-blue"
+                  value={mapping[role] ?? ''}
+                  onChange={e => setMapping({ ...mapping, [role]: e.target.value || undefined })}
+                >
+                  <option value="">(none)</option>
+                  {current.headers.map((h, idx) => <option key={idx} value={h}>{h}</option>)}
+                </select>
+              </div>
+            ))}
+          </div>
+        </div>
+
+        <div className="flex justify-between items-center px-6 py-4 border-t border-slate-100 bg-slate-50">
+          <span className="text-xs text-slate-500">
+            {missing.length > 0 && current.kind === 'dge' && !mapping.pAdj && !mapping.pValue
+              ? 'Map an adjusted or raw p-value column.'
+              : 'Saved as a profile for files with the same header.'}
+          </span>
+          <div className="flex gap-2">
+            <button onClick={onCancel} className="px-4 py-2 text-sm font-medium text-slate-500 hover:text-slate-900">Skip File</button>
+            <button
+              onClick={() => onConfirm({ headerRow: current.headerRow, mapping }, current)}
+              disabled={missing.length > 0}
+              className="px-5 py-2 bg-brand-blue text-white rounded-lg text-sm font-medium hover:bg-blue-800 disabled:opacity-50 disabled:cursor-not-allowed"
+            >
+              Apply Mapping
+            </button>
+          </div>
+        </div>
+      </div>
+    </div>
+  );
+};
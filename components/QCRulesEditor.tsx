@@ -0,0 +1,58 @@
+import React from 'react';
+import { QCRule } from '../types';
+import { QC_METRIC_LABELS } from '../utils/qcRules';
+
+interface Props {
+  rules: QCRule[];
+  onChange: (rules: QCRule[]) => void;
+}
+
+export const QCRulesEditor: React.FC<Props> = ({ rules, onChange }) => {
+  const update = (idx: number, patch: Partial<QCRule>) =>
+    onChange(rules.map((r, i) => i === idx ? { ...r, ...patch } : r));
+
+  const inputClass = 'w-20 px-2 py-1 text-xs font-mono text-slate-700 bg-slate-50 border border-slate-200 rounded focus:outline-none focus:border-brand-blue disabled:opacity-50';
+
+  return (
+    <table className="w-full text-xs">
+      <thead>
+        <tr className="text-[10px] font-bold uppercase text-slate-400 text-left">
+          <th className="py-1">Rule</th>
+          <th className="py-1">Warn</th>
+          <th className="py-1">Fail</th>
+        </tr>
+      </thead>
+      <tbody>
+        {rules.map((rule, idx) => {
+          const { label, unit } = QC_METRIC_LABELS[rule.metric];
+          const op = rule.direction === 'min' ? '<' : '>';
+          return (
+            <tr key={rule.metric} className="border-t border-slate-100">
+              <td className="py-1.5">
+                <label className="flex items-center gap-2 text-slate-700 font-medium">
+                  <input type="checkbox" checked={rule.enabled} onChange={e => update(idx, { enabled: e.target.checked })} />
+                  {label}
+                </label>
+              </td>
+              {(['warn', 'fail'] as const).map(level => (
+                <td key={level} className="py-1.5">
+                  <span className="text-slate-400 font-mono mr-1">{op}</span>
+                  <input
+                    type="number"
+                    min="0"
+                    step="any"
+                    disabled={!rule.enabled}
+                    className={inputClass}
+                    value={rule[level]}
+                    onChange={e => update(idx, { [level]: Number(e.target.value) })}
+                  />
+                  <span className="text-slate-400 ml-1">{unit}</span>
+                </td>
+              ))}
+            </tr>
+          );
+        })}
+      </tbody>
+    </table>
+  );
+};
@@ -0,0 +1,115 @@
+import React, { useState } from 'react';
+import { Plus, Tags, Trash2, Upload, X } from 'lucide-react';
+import { parseAliasMap } from '../utils/excelParser';
+
+interface Props {
+  aliases: Record<string, string>;
+  sampleIds: string[]; // IDs found in the uploaded tables and sample sheet, listed even before they have an alias
+  onSave: (aliases: Record<string, string>) => void;
+  onCancel: () => void;
+}
+
+type AliasRow = { from: string; to: string };
+
+const toRows = (aliases: Record<string, string>, sampleIds: string[]): AliasRow[] => {
+  const ids = Array.from(new Set([...sampleIds, ...Object.keys(aliases)]));
+  return ids.length > 0 ? ids.map(from => ({ from, to: aliases[from] || '' })) : [{ from: '', to: '' }];
+};
+
+export const SampleAliasEditor: React.FC<Props> = ({ aliases, sampleIds, onSave, onCancel }) => {
+  const [rows, setRows] = useState<AliasRow[]>(() => toRows(aliases, sampleIds));
+  const [importError, setImportError] = useState<string | null>(null);
+
+  const updateRow = (idx: number, patch: Partial<AliasRow>) =>
+    setRows(rows.map((r, i) => i === idx ? { ...r, ...patch } : r));
+
+  // Imported aliases overwrite matching IDs and append the rest
+  const importFile = async (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    e.target.value = '';
+    if (!file) return;
+    try {
+      const imported = await parseAliasMap(file);
+      if (Object.keys(imported).length === 0) throw new Error(`No "sample ID, alias" rows found in ${file.name}`);
+      const current = Object.fromEntries(rows.filter(r => r.from.trim()).map(r => [r.from.trim(), r.to]));
+      setRows(toRows({ ...current, ...imported }, rows.map(r => r.from.trim()).filter(Boolean)));
+      setImportError(null);
+    } catch (err) {
+      setImportError(err instanceof Error ? err.message : String(err));
+    }
+  };
+
+  const save = () => onSave(Object.fromEntries(
+    rows.map(r => [r.from.trim(), r.to.trim()]).filter(([from, to]) => from && to && from !== to)
+  ));
+
+  const labels = rows.map(r => r.to.trim()).filter(Boolean);
+  const clashes = Array.from(new Set(labels.filter((l, idx) => labels.indexOf(l) !== idx)));
+  const cellClass = 'w-full px-2 py-1 text-xs bg-transparent border border-transparent rounded hover:border-slate-200 focus:border-brand-blue focus:bg-white focus:outline-none';
+
+  return (
+    <div className="fixed inset-0 z-50 bg-slate-900/50 backdrop-blur-sm flex items-center justify-center p-6">
+      <div className="bg-white rounded-2xl shadow-2xl w-full max-w-2xl max-h-full flex flex-col overflow-hidden">
+        <div className="flex justify-between items-center px-6 py-4 border-b border-slate-100">
+          <div>
+            <h3 className="text-lg font-bold text-slate-800 flex items-center"><Tags size={18} className="mr-2 text-brand-blue" /> Sample Aliases</h3>
+            <p className="text-xs text-slate-500 mt-0.5">Client labels replace pipeline sample IDs in every table and chart of the report.</p>
+          </div>
+          <button onClick={onCancel} className="text-slate-400 hover:text-slate-700 p-1 rounded hover:bg-slate-100"><X size={18} /></button>
+        </div>
+
+        <div className="p-6 overflow-y-auto space-y-4">
+          {importError && (
+            <div className="text-xs bg-red-50 border border-red-100 text-red-700 px-3 py-2 rounded-lg">{importError}</div>
+          )}
+          {clashes.length > 0 && (
+            <div className="text-xs bg-orange-50 border border-orange-100 text-orange-700 px-3 py-2 rounded-lg">
+              Several samples share the alias {clashes.join(', ')}.
+            </div>
+          )}
+
+          <div className="border border-slate-200 rounded-lg overflow-hidden">
+            <table className="text-xs w-full">
+              <thead className="bg-slate-50">
+                <tr>
+                  <th className="px-2 py-2 text-left font-semibold text-slate-600">Sample ID</th>
+                  <th className="px-2 py-2 text-left font-semibold text-slate-600">Alias</th>
+                  <th className="w-8"></th>
+                </tr>
+              </thead>
+              <tbody>
+                {rows.map((row, idx) => (
+                  <tr key={idx} className="border-t border-slate-100">
+                    <td className="px-1 py-0.5"><input className={`${cellClass} font-mono`} value={row.from} onChange={e => updateRow(idx, { from: e.target.value })} placeholder="S1_L001" /></td>
+                    <td className="px-1 py-0.5"><input className={cellClass} value={row.to} onChange={e => updateRow(idx, { to: e.target.value })} placeholder="ICGA-BC-NT-125" /></td>
+                    <td className="px-1 py-0.5 text-center">
+                      <button onClick={() => setRows(rows.filter((_, i) => i !== idx))} title="Remove alias" className="p-1 text-slate-300 hover:text-red-500"><Trash2 size={12} /></button>
+                    </td>
+                  </tr>
+                ))}
+              </tbody>
+            </table>
+          </div>
+
+          <div className="flex items-center gap-2">
+            <button onClick={() => setRows([...rows, { from: '', to: '' }])} className="flex items-center px-3 py-1.5 text-xs font-medium text-brand-blue bg-blue-50 rounded-lg hover:bg-blue-100">
+              <Plus size={12} className="mr-1" /> Add Alias
+            </button>
+            <label className="flex items-center px-3 py-1.5 text-xs font-medium text-slate-600 bg-slate-100 rounded-lg hover:bg-slate-200 cursor-pointer">
+              <Upload size={12} className="mr-1" /> Import CSV
+              <input type="file" accept=".csv,.tsv,.txt,.xlsx,.xls" className="hidden" onChange={importFile} />
+            </label>
+            <span className="text-[10px] text-slate-400">Two columns: sample ID, alias</span>
+          </div>
+        </div>
+
+        <div className="flex justify-end gap-2 px-6 py-4 border-t border-slate-100 bg-slate-50">
+          <button onClick={onCancel} className="px-4 py-2 text-sm font-medium text-slate-500 hover:text-slate-900">Cancel</button>
+          <button onClick={save} className="px-5 py-2 bg-brand-blue text-white rounded-lg text-sm font-medium hover:bg-blue-800">
+            Save Aliases
+          </button>
+        </div>
+      </div>
+    </div>
+  );
+};
@@ -0,0 +1,155 @@
+import React, { useState } from 'react';
+import { Plus, Table2, Trash2, X } from 'lucide-react';
+import { SampleInfo } from '../types';
+
+interface Props {
+  samples: SampleInfo[];
+  suggestedIds: string[]; // Sample names from the uploaded stats tables, offered when the sheet is empty
+  onSave: (samples: SampleInfo[]) => void;
+  onCancel: () => void;
+}
+
+const emptySample = (id = ''): SampleInfo => ({ id, condition: '', covariates: {} });
+
+export const SampleSheetEditor: React.FC<Props> = ({ samples, suggestedIds, onSave, onCancel }) => {
+  const [rows, setRows] = useState<SampleInfo[]>(samples.length > 0 ? samples : [emptySample()]);
+  const [covariates, setCovariates] = useState<string[]>(() => Array.from(new Set(samples.flatMap(s => Object.keys(s.covariates)))));
+  const [newCovariate, setNewCovariate] = useState('');
+
+  const conditions = Array.from(new Set(rows.map(r => r.condition).filter(Boolean)));
+  const ids = rows.map(r => r.id.trim()).filter(Boolean);
+  const duplicates = ids.filter((id, idx) => ids.indexOf(id) !== idx);
+
+  const updateRow = (idx: number, patch: Partial<SampleInfo>) =>
+    setRows(rows.map((r, i) => i === idx ? { ...r, ...patch } : r));
+
+  const updateCovariate = (idx: number, key: string, value: string) =>
+    updateRow(idx, { covariates: { ...rows[idx].covariates, [key]: value } });
+
+  const addCovariate = () => {
+    const key = newCovariate.trim();
+    if (!key || covariates.includes(key)) return;
+    setCovariates([...covariates, key]);
+    setNewCovariate('');
+  };
+
+  const removeCovariate = (key: string) => {
+    setCovariates(covariates.filter(c => c !== key));
+    setRows(rows.map(r => {
+      const { [key]: _, ...rest } = r.covariates;
+      return { ...r, covariates: rest };
+    }));
+  };
+
+  // Blank optional fields are dropped and covariates limited to the current columns
+  const save = () => onSave(rows
+    .filter(r => r.id.trim())
+    .map(r => ({
+      id: r.id.trim(),
+      condition: r.condition.trim(),
+      replicate: r.replicate?.trim() || undefined,
+      batch: r.batch?.trim() || undefined,
+      covariates: Object.fromEntries(covariates.map(c => [c, (r.covariates[c] || '').trim()]))
+    })));
+
+  const cellClass = 'w-full px-2 py-1 text-xs bg-transparent border border-transparent rounded hover:border-slate-200 focus:border-brand-blue focus:bg-white focus:outline-none';
+
+  return (
+    <div className="fixed inset-0 z-50 bg-slate-900/50 backdrop-blur-sm flex items-center justify-center p-6">
+      <div className="bg-white rounded-2xl shadow-2xl w-full max-w-4xl max-h-full flex flex-col overflow-hidden">
+        <div className="flex justify-between items-center px-6 py-4 border-b border-slate-100">
+          <div>
+            <h3 className="text-lg font-bold text-slate-800 flex items-center"><Table2 size={18} className="mr-2 text-brand-blue" /> Experimental Design</h3>
+            <p className="text-xs text-slate-500 mt-0.5">{ids.length} samples in {conditions.length} conditions</p>
+          </div>
+          <button onClick={onCancel} className="text-slate-400 hover:text-slate-700 p-1 rounded hover:bg-slate-100"><X size={18} /></button>
+        </div>
+
+        <div className="p-6 overflow-y-auto space-y-4">
+          {duplicates.length > 0 && (
+            <div className="text-xs bg-orange-50 border border-orange-100 text-orange-700 px-3 py-2 rounded-lg">
+              Duplicate sample IDs: {Array.from(new Set(duplicates)).join(', ')}
+            </div>
+          )}
+
+          <datalist id="sample-conditions">
+            {conditions.map(c => <option key={c} value={c} />)}
+          </datalist>
+
+          <div className="overflow-x-auto border border-slate-200 rounded-lg">
+            <table className="text-xs w-full">
+              <thead className="bg-slate-50">
+                <tr>
+                  {['Sample ID', 'Condition', 'Replicate', 'Batch'].map(h => (
+                    <th key={h} className="px-2 py-2 text-left font-semibold text-slate-600 whitespace-nowrap">{h}</th>
+                  ))}
+                  {covariates.map(c => (
+                    <th key={c} className="px-2 py-2 text-left font-semibold text-slate-600 whitespace-nowrap">
+                      {c}
+                      <button onClick={() => removeCovariate(c)} title={`Remove ${c}`} className="ml-1 text-slate-300 hover:text-red-500 align-middle"><X size={10} /></button>
+                    </th>
+                  ))}
+                  <th className="w-8"></th>
+                </tr>
+              </thead>
+              <tbody>
+                {rows.map((row, idx) => (
+                  <tr key={idx} className="border-t border-slate-100">
+                    <td className="px-1 py-0.5"><input className={`${cellClass} font-mono`} value={row.id} onChange={e => updateRow(idx, { id: e.target.value })} placeholder="Sample_1" /></td>
+                    <td className="px-1 py-0.5"><input className={cellClass} list="sample-conditions" value={row.condition} onChange={e => updateRow(idx, { condition: e.target.value })} placeholder="Condition" /></td>
+                    <td className="px-1 py-0.5"><input className={cellClass} value={row.replicate || ''} onChange={e => updateRow(idx, { replicate: e.target.value })} /></td>
+                    <td className="px-1 py-0.5"><input className={cellClass} value={row.batch || ''} onChange={e => updateRow(idx, { batch: e.target.value })} /></td>
+                    {covariates.map(c => (
+                      <td key={c} className="px-1 py-0.5"><input className={cellClass} value={row.covariates[c] || ''} onChange={e => updateCovariate(idx, c, e.target.value)} /></td>
+                    ))}
+                    <td className="px-1 py-0.5 text-center">
+                      <button onClick={() => setRows(rows.filter((_, i) => i !== idx))} title="Remove sample" className="p-1 text-slate-300 hover:text-red-500"><Trash2 size={12} /></button>
+                    </td>
+                  </tr>
+                ))}
+              </tbody>
+            </table>
+          </div>
+
+          <div className="flex flex-wrap items-center gap-2">
+            <button onClick={() => setRows([...rows, emptySample()])} className="flex items-center px-3 py-1.5 text-xs font-medium text-brand-blue bg-blue-50 rounded-lg hover:bg-blue-100">
+              <Plus size={12} className="mr-1" /> Add Sample
+            </button>
+            {suggestedIds.some(id => !ids.includes(id)) && (
+              <button
+                onClick={() => setRows([...rows.filter(r => r.id.trim()), ...suggestedIds.filter(id => !ids.includes(id)).map(id => emptySample(id))])}
+                className="px-3 py-1.5 text-xs font-medium text-slate-600 bg-slate-100 rounded-lg hover:bg-slate-200"
+              >
+                Add samples from stats tables
+              </button>
+            )}
+            <div className="flex items-center gap-1 ml-auto">
+              <input
+                className="w-36 px-2 py-1.5 text-xs bg-slate-50 border border-slate-200 rounded-lg focus:outline-none focus:border-brand-blue"
+                value={newCovariate}
+                onChange={e => setNewCovariate(e.target.value)}
+                onKeyDown={e => { if (e.key === 'Enter') addCovariate(); }}
+                placeholder="New covariate (e.g. Sex)"
+              />
+              <button onClick={addCovariate} disabled={!newCovariate.trim()} className="px-3 py-1.5 text-xs font-medium text-slate-600 bg-slate-100 rounded-lg hover:bg-slate-200 disabled:opacity-50">Add Column</button>
+            </div>
+          </div>
+        </div>
+
+        <div className="flex justify-between items-center px-6 py-4 border-t border-slate-100 bg-slate-50">
+          <span className="text-xs text-slate-500">Conditions are linked to comparisons as numerator / denominator groups.</span>
+          <div className="flex gap-2">
+            <button onClick={onCancel} className="px-4 py-2 text-sm font-medium text-slate-500 hover:text-slate-900">Cancel</button>
+            <button
+              onClick={save}
+              disabled={duplicates.length > 0}
+              className="px-5 py-2 bg-brand-blue text-white rounded-lg text-sm font-medium hover:bg-blue-800 disabled:opacity-50 disabled:cursor-not-allowed"
+            >
+              Save Design
+            </button>
+          </div>
+        </div>
+      </div>
+    </div>
+  );
+};
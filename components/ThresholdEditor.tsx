@@ -0,0 +1,44 @@
+import React from 'react';
+import { SignificanceThresholds } from '../types';
+
+interface Props {
+  value: SignificanceThresholds;
+  onChange: (value: SignificanceThresholds) => void;
+}
+
+// Blank inputs disable the p-value cutoffs; |log2FC| is always applied
+const toCutoff = (raw: string): number | null => {
+  if (raw.trim() === '') return null;
+  const num = Number(raw);
+  return isNaN(num) ? null : num;
+};
+
+export const ThresholdEditor: React.FC<Props> = ({ value, onChange }) => {
+  const fields: { key: keyof SignificanceThresholds; label: string; step: string }[] = [
+    { key: 'pAdj', label: 'FDR <', step: '0.01' },
+    { key: 'pValue', label: 'P-value <', step: '0.01' },
+    { key: 'logFC', label: '|log2FC| >', step: '0.1' }
+  ];
+
+  return (
+    <div className="grid grid-cols-3 gap-2">
+      {fields.map(({ key, label, step }) => (
+        <label key={key} className="flex flex-col text-[10px] font-bold uppercase text-slate-400">
+          {label}
+          <input
+            type="number"
+            min="0"
+            step={step}
+            className="mt-0.5 w-full px-2 py-1 text-xs font-mono font-normal text-slate-700 bg-slate-50 border border-slate-200 rounded focus:outline-none focus:border-brand-blue"
+            value={value[key] ?? ''}
+            placeholder="off"
+            onChange={e => {
+              const cutoff = toCutoff(e.target.value);
+              onChange({ ...value, [key]: key === 'logFC' ? (cutoff ?? 0) : cutoff });
+            }}
+          />
+        </label>
+      ))}
+    </div>
+  );
+};
@@ -338,6 +338,8 @@ export const DEFAULT_TEMPLATE = `<!DOCTYPE html>
         }
         .comp-btn:hover { border-color: var(--primary); color: var(--primary); }
         .comp-btn.active { background: var(--primary); color: white; border-color: var(--primary); }
+        .comp-group { display: flex; gap: 8px; flex-wrap: wrap; align-items: center; width: 100%; }
+        .comp-group-label { min-width: 120px; font-size: 11px; font-weight: 600; text-transform: uppercase; letter-spacing: 0.5px; color: var(--text-light); }
 
         /* === FOLDERS (DELIVERABLES) === */
         .folder-grid { display: grid; grid-template-columns: repeat(auto-fill, minmax(280px, 1fr)); gap: 20px; }
@@ -548,6 +550,21 @@ export const DEFAULT_TEMPLATE = `<!DOCTYPE html>
                                 </table>
                             </div>
                         </div>
+                    </div>
+
+                    <!-- Per-sample QC summary (shown when QC rules could be evaluated) -->
+                    <div class="card" id="qc-summary-card" style="display:none;">
+                        <div class="card-header"><div class="card-title">QC Summary</div><div id="qc-summary-counts"></div></div>
+                        <div class="card-body" id="qc-summary-body"></div>
+                    </div>
+
+                    <!-- Table 3: Experimental Design (shown when a sample sheet is provided) -->
+                    <div class="card" id="design-card" style="display:none;">
+                        <div class="card-header"><div class="card-title">3. Experimental Design</div><span id="design-summary" class="badge" style="text-transform:none; background:var(--accent); color:var(--primary);"></span></div>
+                        <div class="table-container">
+                            <table id="designTable"></table>
+                        </div>
+                    </div>
                     </section>
 
                 <!-- SECTION: WET LAB -->
@@ -688,6 +705,50 @@ export const DEFAULT_TEMPLATE = `<!DOCTYPE html>
                         </div>
                     </div>
 
+                    <!-- QC curves from MultiQC plot data (shown by the script when uploaded) -->
+                    <div class="grid-2" id="qc-curves" style="display:none; gap: 24px; margin-bottom: 24px;">
+                        <div class="card" id="quality-curve-card" style="display:none">
+                            <div class="card-header"><div class="card-title"><i data-lucide="activity"></i> Per-base Sequence Quality</div></div>
+                            <div class="card-body" style="height: 300px; position: relative;">
+                                <canvas id="qualityCurveChart"></canvas>
+                            </div>
+                        </div>
+                        <div class="card" id="adapter-curve-card" style="display:none">
+                            <div class="card-header"><div class="card-title"><i data-lucide="scissors"></i> Adapter Content</div></div>
+                            <div class="card-body" style="height: 300px; position: relative;">
+                                <canvas id="adapterCurveChart"></canvas>
+                            </div>
+                        </div>
+                    </div>
+
+                    <!-- FastQC results (shown by the script when uploaded) -->
+                    <div class="card" id="fastqc-card" style="display:none">
+                        <div class="card-header"><div class="card-title"><i data-lucide="list-checks"></i> FastQC Module Status</div></div>
+                        <div class="table-container">
+                            <table id="fastqcStatusTable"></table>
+                        </div>
+                    </div>
+                    <div class="grid-2" id="fastqc-curves" style="display:none; gap: 24px; margin-bottom: 24px;">
+                        <div class="card" id="fastqc-quality-card" style="display:none">
+                            <div class="card-header"><div class="card-title"><i data-lucide="activity"></i> Per-base Quality (FastQC)</div></div>
+                            <div class="card-body" style="height: 300px; position: relative;">
+                                <canvas id="fastqcQualityChart"></canvas>
+                            </div>
+                        </div>
+                        <div class="card" id="fastqc-gc-card" style="display:none">
+                            <div class="card-header"><div class="card-title"><i data-lucide="percent"></i> Per-sequence GC Content</div></div>
+                            <div class="card-body" style="height: 300px; position: relative;">
+                                <canvas id="fastqcGcChart"></canvas>
+                            </div>
+                        </div>
+                        <div class="card" id="fastqc-length-card" style="display:none">
+                            <div class="card-header"><div class="card-title"><i data-lucide="ruler"></i> Sequence Length Distribution</div></div>
+                            <div class="card-body" style="height: 300px; position: relative;">
+                                <canvas id="fastqcLengthChart"></canvas>
+                            </div>
+                        </div>
+                    </div>
+
                     <div class="grid-4">
                         <div class="stat-box">
                             <div class="stat-label">Genome Size</div>
@@ -818,6 +879,83 @@ export const DEFAULT_TEMPLATE = `<!DOCTYPE html>
                             </div>
                         </div>
                     </div>
+
+                    <!-- Transcript Assembly -->
+                    <div class="card">
+                        <div class="card-header">
+                            <div class="card-title">Transcript Assembly Statistics</div>
+                        </div>
+                        <div class="table-container">
+                            <table class="data-table" style="width: 100%;">
+                                <thead>
+                                    <tr><th>File</th><th class="text-right">Transcripts</th><th class="text-right">Genes</th><th class="text-right">Tx / Gene</th><th class="text-right">Exons / Tx</th><th class="text-right">Mono-exonic</th><th class="text-right">Multi-exonic</th><th class="text-right">Mean Length</th><th class="text-right">N50</th><th class="text-right">Max Length</th></tr>
+                                </thead>
+                                <tbody id="transcriptTable">
+                                    <!-- Injected -->
+                                </tbody>
+                            </table>
+                        </div>
+                    </div>
+
+                    <div class="grid-2" style="gap: 24px; margin-bottom: 24px;">
+                        <div class="card">
+                            <div class="card-header"><div class="card-title">Transcript Length Distribution</div></div>
+                            <div class="card-body" style="height: 300px; position: relative;">
+                                <canvas id="transcriptLengthChart"></canvas>
+                            </div>
+                        </div>
+                        <div class="card">
+                            <div class="card-header"><div class="card-title">Transcript Biotypes</div></div>
+                            <div class="card-body" style="height: 300px; position: relative;">
+                                <canvas id="transcriptBiotypeChart"></canvas>
+                            </div>
+                        </div>
+                    </div>
+
+                    <!-- Novel Isoforms (gffcompare class codes) -->
+                    <div class="card" id="novel-isoforms">
+                        <div class="card-header">
+                            <div class="card-title">Novel Isoforms</div>
+                            <div class="card-actions">
+                                <div style="position: relative;">
+                                    <i data-lucide="search" width="16" style="position: absolute; left: 12px; top: 50%; transform: translateY(-50%); color: var(--text-light);"></i>
+                                    <input type="text" placeholder="Search transcript, gene, locus..." style="padding: 6px 12px 6px 36px; border: 1px solid var(--border); border-radius: 4px; font-size: 13px; width: 240px;" id="novelSearch">
+                                </div>
+                            </div>
+                        </div>
+                        <div class="card-body" style="height: 260px; position: relative;">
+                            <canvas id="novelClassChart"></canvas>
+                        </div>
+                        <div class="table-container" style="max-height: 420px; overflow-y: auto;">
+                            <table class="data-table" style="width: 100%;">
+                                <thead>
+                                    <tr><th>Transcript</th><th>Class</th><th>Ref. Gene</th><th>Ref. Transcript</th><th>Locus</th><th class="text-right">Exons</th><th class="text-right">Length</th></tr>
+                                </thead>
+                                <tbody id="novelTable">
+                                    <!-- Injected -->
+                                </tbody>
+                            </table>
+                        </div>
+                        <div class="card-footer"><span id="novelCount" style="font-size: 12px; color: var(--text-light);"></span></div>
+                        <div id="locus-viewer" style="display: none; border-top: 1px solid var(--border);">
+                            <div class="card-header">
+                                <div class="card-title" id="locus-title">Locus</div>
+                                <div class="card-actions" style="display: flex; gap: 6px;">
+                                    <button class="btn btn-sm btn-outline" id="locus-zoom-in" title="Zoom in"><i data-lucide="zoom-in" width="14"></i></button>
+                                    <button class="btn btn-sm btn-outline" id="locus-zoom-out" title="Zoom out"><i data-lucide="zoom-out" width="14"></i></button>
+                                    <button class="btn btn-sm btn-outline" id="locus-reset" title="Reset view"><i data-lucide="maximize-2" width="14"></i></button>
+                                </div>
+                            </div>
+                            <div class="card-body">
+                                <div id="locus-svg" style="width: 100%; overflow: hidden;"></div>
+                                <div style="margin-top: 8px; display: flex; gap: 16px; font-size: 12px; color: var(--text-light);">
+                                    <span><span style="display: inline-block; width: 12px; height: 8px; background: #F97316; margin-right: 6px;"></span>Novel</span>
+                                    <span><span style="display: inline-block; width: 12px; height: 8px; background: #1E3A8A; margin-right: 6px;"></span>Reference / assembled</span>
+                                    <span>Scroll over the tracks to zoom</span>
+                                </div>
+                            </div>
+                        </div>
+                    </div>
                 </section>
 
                 <!-- SECTION: DGE -->
@@ -861,21 +999,24 @@ export const DEFAULT_TEMPLATE = `<!DOCTYPE html>
                             </div>
                         </div>
                         <div class="card-body">
-                            <p id="comp-desc" style="font-weight:600; font-size:14px; color:var(--primary); margin-bottom:16px;">Select a comparison...</p>
+                            <p id="comp-desc" style="font-weight:600; font-size:14px; color:var(--primary); margin-bottom:4px;">Select a comparison...</p>
+                            <p id="dge-stat-note" style="font-size:12px; color:var(--text-light); margin-bottom:16px;"></p>
+                            <p id="contrast-samples" style="display:none; font-size:12px; color:var(--text-main); margin-top:-8px; margin-bottom:16px;"></p>
                             <div class="grid-2">
                                 <div class="card" style="box-shadow:none; border:1px solid var(--border-light);">
-                                    <div class="card-header" style="padding:10px;"><div style="font-size:12px; font-weight:600;">MA Plot</div></div>
+                                    <div class="card-header" style="padding:10px;"><div style="font-size:12px; font-weight:600;">MA Plot</div><span id="ma-thresholds" class="badge" style="font-size:11px; text-transform:none; background:var(--accent); color:var(--primary);"></span></div>
                                     <div class="card-body" style="height: 400px;">
                                         <canvas id="maPlot"></canvas>
                                     </div>
                                 </div>
                                 <div class="card" style="box-shadow:none; border:1px solid var(--border-light);">
-                                    <div class="card-header" style="padding:10px;"><div style="font-size:12px; font-weight:600;">Volcano Plot</div></div>
+                                    <div class="card-header" style="padding:10px;"><div style="font-size:12px; font-weight:600;">Volcano Plot</div><span id="volcano-thresholds" class="badge" style="font-size:11px; text-transform:none; background:var(--accent); color:var(--primary);"></span></div>
                                     <div class="card-body" style="height: 400px;">
                                         <canvas id="volcanoPlot"></canvas>
                                     </div>
                                 </div>
                             </div>
+                            <div id="dge-point-card" class="card" style="display:none; margin-top:16px; box-shadow:none; border:1px solid var(--border-light);"></div>
                         </div>
                     </section>
 
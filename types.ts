@@ -21,6 +21,9 @@ export interface ProjectStats {
   novelIsoforms: number;
 }
 
+// Executive statistics computed from the uploaded tables; `basis` explains the rule, e.g. 'Mean of "Uniquely mapped %"'
+export type DerivedStats = Partial<{ [K in keyof ProjectStats]: { value: ProjectStats[K]; fileName: string; basis: string } }>;
+
 export interface EnrichmentTerm {
   term: string;
   count: number;
@@ -37,12 +40,190 @@ export interface ComparisonStats {
   sigTotal: number;
 }
 
-export interface TranscriptStat {
+export interface SignificanceThresholds {
+  pAdj: number | null; // Adjusted p-value / FDR cutoff (null = not applied)
+  pValue: number | null; // Raw p-value cutoff (null = not applied)
+  logFC: number; // Absolute log2 fold change cutoff
+}
+
+// One parsed row of a per-comparison DGE table
+export interface DGERecord {
+  label: string;
+  logFC: number;
+  pAdj: number | null; // Adjusted p-value (or 1 - prob for NOISeq tables)
+  pValue: number | null;
+  baseExpr: number | null; // logCPM / baseMean used for the MA x-axis
+  symbol?: string;
+  biotype?: string;
+}
+
+// Per-sample QC rule; `direction` says whether low ('min') or high ('max') values are bad
+export type QCMetric = 'mappingRate' | 'q30' | 'reads' | 'duplication';
+export type QCStatus = 'pass' | 'warn' | 'fail';
+
+export interface QCRule {
+  metric: QCMetric;
+  enabled: boolean;
+  direction: 'min' | 'max';
+  warn: number;
+  fail: number;
+}
+
+export interface SampleQC {
+  sample: string;
+  status: QCStatus; // Worst status over the sample's checks
+  checks: { metric: QCMetric; label: string; value: number; status: QCStatus }[];
+}
+
+// Volcano / MA plot point; detail fields feed the report tooltips and pinned detail card
+export interface DGEPoint {
+  x: number;
+  y: number;
+  sig: boolean;
+  label: string;
+  pValue?: number;
+  pAdj?: number;
+  baseExpr?: number;
+  symbol?: string;
+  biotype?: string;
+}
+
+// Roles a spreadsheet column can play when parsing DGE and enrichment tables
+export type ColumnRole = 'id' | 'logFC' | 'pAdj' | 'pValue' | 'baseExpr' | 'symbol' | 'biotype' | 'term' | 'count' | 'category';
+export type ColumnMapping = Partial<Record<ColumnRole, string>>;
+export type TableKind = 'dge' | 'enrichment';
+
+// Header row + column roles chosen for a table (auto-detected or user confirmed)
+export interface TableLayout {
+  headerRow: number;
+  mapping: ColumnMapping;
+}
+
+// A user-confirmed layout, reused for any file with the same header signature
+export interface MappingProfile extends TableLayout {
+  key: string; // `${kind}:${signature}`
+  kind: TableKind;
+  headers: string[];
+}
+
+export interface SheetPreview {
+  kind: TableKind;
+  rows: any[][]; // Raw rows from the top of the sheet
+  headerRow: number;
+  headers: string[];
+  signature: string;
+  detected: ColumnMapping;
+  fallbacks: ColumnRole[]; // Required roles not matched by name (guessed by position or missing)
+}
+
+// How a DGE table's statistics were interpreted
+export interface DGEColumnInfo {
+  yStatistic: 'pAdj' | 'pValue' | 'prob'; // Drives the volcano y-axis and the significance call
+  linearFoldChange: boolean; // Fold changes were linear and converted to log2
+  tool?: string; // DGE tool recognised from the header signature (DESeq2, edgeR, limma, Sleuth)
+  baseExprLabel: string; // MA plot x-axis title
+}
+
+// An entry of a list that several uploads add to; `sourceId` is the upload that produced it, so removing that
+// upload drops exactly its entries
+export interface UploadedEntry {
+  sourceId?: string;
+}
+
+export interface TranscriptStat extends UploadedEntry {
   name: string;
   count: number;
   totalLen: number;
   meanLen: number;
   maxLen: number;
+  n50: number;
+  geneCount: number;
+  transcriptsPerGene: number;
+  exonsPerTranscript: number;
+  monoExonic: number;
+  multiExonic: number;
+  lengthBins: { label: string; count: number }[];
+  transcriptBiotypes: Record<string, number>; // transcript_type / transcript_biotype, falling back to the gene's
+  geneBiotypes: Record<string, number>; // gene_type / gene_biotype
+}
+
+export interface NovelTranscript {
+  id: string;
+  geneId?: string;
+  refGeneId?: string; // gffcompare ref_gene_id of the overlapping reference gene
+  refTranscriptId?: string; // gffcompare cmp_ref
+  classCode?: string; // gffcompare class_code, e.g. 'j', 'u', 'x'
+  locus: string; // chr:start-end
+  strand: string;
+  exons: number;
+  length: number;
+}
+
+export interface NovelIsoformSummary {
+  name: string;
+  classCodes: Record<string, number>;
+  transcripts: NovelTranscript[];
+}
+
+// Exon structure of one transcript from a GTF / GFF3 upload
+export interface TranscriptModel {
+  id: string;
+  geneId?: string;
+  refGeneId?: string;
+  classCode?: string;
+  chrom: string;
+  strand: string;
+  exons: [number, number][]; // 1-based inclusive, sorted by start
+}
+
+// One gene locus as drawn by the report's locus viewer
+export interface LocusModel {
+  chrom: string;
+  start: number;
+  end: number;
+  transcripts: { id: string; classCode?: string; strand: string; exons: [number, number][]; novel: boolean }[];
+}
+
+// One row of the experimental design (sample sheet)
+export interface SampleInfo {
+  id: string;
+  condition: string;
+  replicate?: string;
+  batch?: string;
+  covariates: Record<string, string>; // Any further sheet columns, e.g. sex, timepoint
+}
+
+// Per-sample aligner log (STAR Log.final.out or HISAT2 / Bowtie2 summary); percentages are 0-100
+export type AlignerMetric = 'inputReads' | 'uniqueReads' | 'uniquePct' | 'mappedPct' | 'multiPct' | 'tooManyLociPct' | 'unmappedShortPct' | 'unmappedOtherPct' | 'splices' | 'mismatchPct';
+
+export interface AlignerLog extends UploadedEntry {
+  sample: string;
+  aligner: 'STAR' | 'HISAT2';
+  metrics: Partial<Record<AlignerMetric, number>>;
+}
+
+// Per-sample read QC from MultiQC general statistics; percentages are 0-100
+export type ReadQCMetric = 'totalReads' | 'readLength' | 'gcPct' | 'duplicationPct' | 'q30Pct' | 'adapterPct';
+
+// Per-sample curves from MultiQC module plots: mean Phred score or cumulative adapter % by read position
+export type QCCurveKind = 'quality' | 'adapter';
+export type QCCurves = Partial<Record<QCCurveKind, Record<string, [number, number][]>>>;
+
+export interface MultiQCData {
+  generalStats: Record<string, Partial<Record<ReadQCMetric, number>>>; // Sample -> metrics
+  curves: QCCurves;
+}
+
+// One FastQC run (fastqc_data.txt, alone or inside _fastqc.zip); distributions are [x, y] points
+export interface FastQCReport extends UploadedEntry {
+  sample: string; // Filename field without the FASTQ extension, e.g. "S1_R1"
+  modules: { name: string; status: QCStatus }[]; // In FastQC's order, e.g. "Per base sequence quality": "pass"
+  totalSequences?: number;
+  gcPct?: number;
+  sequenceLength?: string; // e.g. "35-151"
+  perBaseQuality: [number, number][]; // Mean Phred score by read position (bin midpoint)
+  gcContent: [number, number][]; // % of reads by mean GC %
+  lengthDistribution: [number, number][]; // % of reads by length (bin midpoint)
 }
 
 export interface ComparisonData {
@@ -51,18 +232,51 @@ export interface ComparisonData {
   description: string; // e.g., "Treatment vs Control"
   sigCount: number;
   stats?: ComparisonStats; // Detailed stats
+  thresholds?: SignificanceThresholds; // Per-comparison override, project default when unset
+  group?: string; // e.g. "Timepoint 24h"; grouped comparisons share a toggle row in the report
+  numerator?: string; // Sample sheet condition tested, e.g. "KO"
+  denominator?: string; // Reference condition, e.g. "WT"
+  dgeInfo?: DGEColumnInfo;
+  records?: DGERecord[]; // Full DGE table, kept so significance can be recomputed (not exported to the report)
   // Plot Data
-  maPoints: { x: number; y: number; sig: boolean; label: string }[];
-  volcanoPoints: { x: number; y: number; sig: boolean; label: string }[];
+  maPoints: DGEPoint[];
+  volcanoPoints: DGEPoint[];
   // Enrichment Data
   goTerms: EnrichmentTerm[];
   keggPathways: EnrichmentTerm[];
 }
 
+// Report sections an upload can populate; `target` is the comparison ID, the curve kind for QC curves, the sample for
+// FastQC reports and aligner logs or, for GTF stats, the upload id
+export type DataSection = 'sampleSheet' | 'dataStats' | 'qcCurves' | 'fastqc' | 'mappingStats' | 'dgeSummary' | 'transcriptStats' | 'novelIsoforms' | 'dge' | 'go' | 'kegg' | 'template';
+
+export interface DataSource {
+  section: DataSection;
+  target?: string;
+  fileId: string;
+  fileName: string;
+}
+
+// One uploaded Data & QC table, kept so several can be joined by sample
+export interface StatsTablePart extends UploadedEntry {
+  sourceId: string;
+  label: string; // Stage from the filename, "Raw" or "Clean"; prefixes its columns when stages are joined
+  table: string[][];
+}
+
 export interface ProcessedData {
-  dataStatsTable: string[][]; // Rows of cells
-  mappingStatsTable: string[][];
+  dataStatsTable: string[][]; // Rows of cells, joined from dataStatsParts
+  dataStatsParts: StatsTablePart[];
+  mappingStatsTable: string[][]; // Uploaded table, or built from alignerLogs when per-sample logs are uploaded
+  alignerLogs: AlignerLog[];
+  qcCurves: QCCurves; // From MultiQC plot data, keyed by pipeline sample ID
+  fastqcReports: FastQCReport[];
+  samples: SampleInfo[]; // Experimental design; empty until a sample sheet is uploaded or entered
+  sampleAliases: Record<string, string>; // Pipeline sample ID -> client label, applied to every per-sample table in the report
   transcriptStats: TranscriptStat[];
+  novelIsoforms: NovelIsoformSummary | null;
+  transcriptModels: Record<string, TranscriptModel[]>; // Exon models per GTF upload id
+  sources: DataSource[]; // Which upload currently populates each report section
   dgeSummaryTable: {
     comp: string;
     desc: string;
@@ -74,6 +288,7 @@ export interface ProcessedData {
     sig: number;
   }[];
   comparisons: Record<string, ComparisonData>;
+  comparisonOrder: string[]; // Display order set by the user; unlisted comparisons follow in natural order
   deliverablesTree: string;
 }
 
@@ -85,11 +300,26 @@ export enum Step {
   GENERATE = 4
 }
 
+// One finding of the pre-generation check
+export interface ValidationIssue {
+  severity: 'error' | 'warning';
+  message: string;
+  step: Step; // Where the problem can be fixed
+}
+
 export interface FileUploadStatus {
   id: string;
   name: string;
-  type: 'stats' | 'mapping' | 'dge_summary' | 'comparison_dge' | 'comparison_go' | 'comparison_kegg' | 'template' | 'gtf_novel' | 'gtf_merged' | 'deliverable_only';
+  type: 'sample_sheet' | 'stats' | 'fastqc' | 'mapping' | 'dge_summary' | 'comparison_dge' | 'comparison_go' | 'comparison_kegg' | 'template' | 'gtf_novel' | 'gtf_merged' | 'deliverable_only';
   assignedTo?: string; // e.g., "C1"
   status: 'pending' | 'success' | 'error';
   message?: string;
+  progress?: number; // 0-1 while a streamed file is being parsed
+  detection?: FileTypeDetection;
+}
+
+// How an upload's type was decided
+export interface FileTypeDetection {
+  confidence: number; // 0-1
+  reason: string; // e.g. "DESeq2 result columns; filename agrees"
 }
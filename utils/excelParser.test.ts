@@ -0,0 +1,166 @@
+import { describe, expect, it } from 'vitest';
+import { DGERecord } from '../types';
+import { DEFAULT_THRESHOLDS, isSignificant, parseComparisonDGE, parseDelimited, sniffDelimited, streamDelimited, summarizeDGE } from './excelParser';
+
+const record = (logFC: number, pAdj: number | null, pValue: number | null = null): DGERecord =>
+    ({ label: 'G', logFC, pAdj, pValue, baseExpr: null });
+
+const tsv = (name: string, rows: (string | number)[][]): File => new File([rows.map(r => r.join('\t')).join('\n') + '\n'], name);
+
+describe('isSignificant', () => {
+    it('needs both the fold change and the FDR cutoff', () => {
+        expect(isSignificant(record(2, 0.01), DEFAULT_THRESHOLDS)).toBe(true);
+        expect(isSignificant(record(1, 0.01), DEFAULT_THRESHOLDS)).toBe(false);
+        expect(isSignificant(record(-3, 0.05), DEFAULT_THRESHOLDS)).toBe(false);
+    });
+
+    it('falls back to the raw p-value for the FDR cutoff when there is no adjusted p-value', () => {
+        expect(isSignificant(record(2, null, 0.01), DEFAULT_THRESHOLDS)).toBe(true);
+        expect(isSignificant(record(2, null, null), DEFAULT_THRESHOLDS)).toBe(false);
+    });
+
+    it('applies a raw p-value cutoff on top of the FDR', () => {
+        const thresholds = { pAdj: 0.05, pValue: 0.001, logFC: 0 };
+        expect(isSignificant(record(1, 0.01, 0.0001), thresholds)).toBe(true);
+        expect(isSignificant(record(1, 0.01, 0.01), thresholds)).toBe(false);
+    });
+});
+
+describe('summarizeDGE', () => {
+    it('counts up, down and significant genes', () => {
+        const { stats, sigCount } = summarizeDGE([record(2, 0.01), record(-2, 0.01), record(0.5, 0.01), record(-3, 0.5)], DEFAULT_THRESHOLDS);
+        expect(stats).toEqual({ total: 4, up: 2, down: 2, sigUp: 1, sigDown: 1, sigTotal: 2 });
+        expect(sigCount).toBe(2);
+    });
+
+    it('caps -log10 FDR at 50 for zero p-values', () => {
+        const { volcanoPoints } = summarizeDGE([record(2, 0)], DEFAULT_THRESHOLDS);
+        expect(volcanoPoints[0]).toMatchObject({ x: 2, y: 50, sig: true });
+    });
+});
+
+describe('parseComparisonDGE', () => {
+    it('recognises DESeq2 output and puts baseMean on a log2 scale', async () => {
+        const { records, info } = await parseComparisonDGE(tsv('C1_DGE.tsv', [
+            ['gene_id', 'baseMean', 'log2FoldChange', 'lfcSE', 'stat', 'pvalue', 'padj'],
+            ['G1', 255, 2.5, 0.2, 4, 0.0001, 0.001],
+            ['G2', 3, -0.2, 0.3, 1, 0.5, 0.8]
+        ]));
+        expect(info).toMatchObject({ tool: 'DESeq2', yStatistic: 'pAdj', linearFoldChange: false });
+        expect(records.map(r => r.label)).toEqual(['G1', 'G2']);
+        expect(records[0].baseExpr).toBe(8);
+    });
+
+    it('converts Sleuth b values from natural log to log2', async () => {
+        const { records, info } = await parseComparisonDGE(tsv('C1_sleuth.tsv', [
+            ['target_id', 'pval', 'qval', 'b', 'mean_obs'],
+            ['T1', 0.001, 0.01, Math.LN2, 5]
+        ]));
+        expect(info.tool).toBe('Sleuth');
+        expect(records[0].logFC).toBeCloseTo(1);
+    });
+
+    it('turns a linear fold change column into log2 and drops zero fold changes', async () => {
+        const { records, info } = await parseComparisonDGE(tsv('C1_cuffdiff.tsv', [
+            ['id', 'fold_change', 'p_value', 'q_value'],
+            ['A', 4, 0.001, 0.01],
+            ['B', 0.25, 0.002, 0.02],
+            ['C', 0, 0.5, 0.9]
+        ]));
+        expect(info.linearFoldChange).toBe(true);
+        expect(records.map(r => [r.label, r.logFC])).toEqual([['A', 2], ['B', -2]]);
+    });
+
+    it('keeps a fold change column with negative values as log2', async () => {
+        const { records, info } = await parseComparisonDGE(tsv('C1.tsv', [
+            ['id', 'fold_change', 'q_value'],
+            ['A', 4, 0.01],
+            ['B', -1, 0.02]
+        ]));
+        expect(info.linearFoldChange).toBe(false);
+        expect(records.map(r => r.logFC)).toEqual([4, -1]);
+    });
+
+    it('uses 1 - prob as the FDR of NOISeq tables', async () => {
+        const { records, info } = await parseComparisonDGE(tsv('C1_noiseq.tsv', [
+            ['gene', 'M', 'D', 'prob'],
+            ['G1', 3, 10, 0.99]
+        ]));
+        expect(info.yStatistic).toBe('prob');
+        expect(records[0].logFC).toBe(3);
+        expect(records[0].pAdj).toBeCloseTo(0.01);
+    });
+
+    it('finds the header below title lines', async () => {
+        const { records } = await parseComparisonDGE(tsv('C1.tsv', [
+            ['Differential expression, KO vs WT'],
+            ['gene', 'logFC', 'FDR'],
+            ['G1', 1.5, 0.01]
+        ]));
+        expect(records).toEqual([{ label: 'G1', logFC: 1.5, pAdj: 0.01, pValue: null, baseExpr: null, symbol: undefined, biotype: undefined }]);
+    });
+
+    it('stops when the upload is cancelled', async () => {
+        const controller = new AbortController();
+        controller.abort();
+        const file = tsv('C1.tsv', [['gene', 'logFC', 'FDR'], ['G1', 1, 0.01]]);
+        await expect(parseComparisonDGE(file, DEFAULT_THRESHOLDS, undefined, { signal: controller.signal })).rejects.toMatchObject({ name: 'AbortError' });
+    });
+});
+
+describe('sniffDelimited', () => {
+    it('picks the delimiter that splits the lines consistently', () => {
+        expect(sniffDelimited('a\tb\tc\n1\t2\t3\n', 'x.txt').delimiter).toBe('\t');
+        expect(sniffDelimited('a,b,c\n1,2,3\n', 'x.txt').delimiter).toBe(',');
+        expect(sniffDelimited('a|b|c\n1|2|3\n').delimiter).toBe('|');
+    });
+
+    it('ignores delimiters inside quotes', () => {
+        expect(sniffDelimited('name;value\n"a, b, c";1\n"d, e";2\n', 'x.csv').delimiter).toBe(';');
+    });
+
+    it('recognises decimal commas in semicolon and tab separated files', () => {
+        expect(sniffDelimited('gene;logFC;FDR\nA;1,5;0,001\nB;-2,25;0,04\n', 'x.csv')).toEqual({ delimiter: ';', decimalComma: true });
+        expect(sniffDelimited('gene\tlogFC\nA\t1.5\nB\t2,000\nC\t0.25\n', 'x.tsv')).toEqual({ delimiter: '\t', decimalComma: false });
+    });
+
+    it('falls back to the extension for a single column', () => {
+        expect(sniffDelimited('only\n1\n', 'x.csv').delimiter).toBe(',');
+        expect(sniffDelimited('only\n1\n', 'x.txt').delimiter).toBe('\t');
+    });
+});
+
+describe('parseDelimited', () => {
+    it('reads numbers as SheetJS did and keeps IDs and percentages as text', () => {
+        expect(parseDelimited('Sample,Reads,Q30\nS1,"30,000,000",93.5%\n001,12,0.5\n')).toEqual([
+            ['Sample', 'Reads', 'Q30'],
+            ['S1', 30000000, '93.5%'],
+            ['001', 12, 0.5]
+        ]);
+    });
+
+    it('converts decimal commas and thousands dots', () => {
+        expect(parseDelimited('a;b\n1,5;1.234,5\n', { delimiter: ';', decimalComma: true })).toEqual([['a', 'b'], [1.5, 1234.5]]);
+    });
+
+    it('keeps quoted delimiters, doubled quotes and line breaks inside a field', () => {
+        expect(parseDelimited('id\tdesc\n1\t"line one\nline two"\n2\t"say ""hi""\ttab"\n', { delimiter: '\t', decimalComma: false })).toEqual([
+            ['id', 'desc'],
+            [1, 'line one\nline two'],
+            [2, 'say "hi"\ttab']
+        ]);
+    });
+
+    it('skips blank lines and stops at maxRows', () => {
+        expect(parseDelimited('a,b\r\n\r\n1,2\r\n3,4\r\n', undefined, 2)).toEqual([['a', 'b'], [1, 2]]);
+    });
+});
+
+describe('streamDelimited', () => {
+    it('streams rows in file order and returns the sniffed format', async () => {
+        const rows: any[][] = [];
+        const format = await streamDelimited(new File(['\uFEFFgene;FDR\nA;0,01\nB;0,5\n'], 'x.csv'), row => rows.push(row));
+        expect(format).toEqual({ delimiter: ';', decimalComma: true });
+        expect(rows).toEqual([['gene', 'FDR'], ['A', 0.01], ['B', 0.5]]);
+    });
+});
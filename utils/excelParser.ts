@@ -1,9 +1,19 @@
 
 import * as XLSX from 'xlsx';
-import { ComparisonData, EnrichmentTerm, ComparisonStats, TranscriptStat } from '../types';
+import { ComparisonData, EnrichmentTerm, ComparisonStats, TranscriptStat, NovelTranscript, NovelIsoformSummary, TranscriptModel, LocusModel, SignificanceThresholds, DGERecord, DGEPoint, DGEColumnInfo, ColumnRole, ColumnMapping, TableKind, TableLayout, SheetPreview, SampleInfo, AlignerLog, AlignerMetric, MultiQCData, QCCurveKind, QCCurves, ReadQCMetric, FastQCReport, QCStatus } from '../types';
 
-// Helper to read file as ArrayBuffer
+// Gzip handling: pipelines deliver .gtf.gz / .tsv.gz / .csv.gz, detected by extension
+export const isGzipped = (filename: string): boolean => /\.gz$/i.test(filename);
+
+// Name of the file inside a .gz, used for type and comparison detection
+export const innerFileName = (filename: string): string => filename.replace(/\.gz$/i, '');
+
+const gunzip = (stream: ReadableStream<Uint8Array>): ReadableStream<Uint8Array> =>
+  stream.pipeThrough(new DecompressionStream('gzip'));
+
+// Helper to read file as ArrayBuffer (decompressed when gzipped)
 export const readFileAsArrayBuffer = (file: File): Promise<ArrayBuffer> => {
+  if (isGzipped(file.name)) return new Response(gunzip(file.stream())).arrayBuffer();
   return new Promise((resolve, reject) => {
     const reader = new FileReader();
     reader.onload = (e) => {
@@ -14,27 +24,31 @@ export const readFileAsArrayBuffer = (file: File): Promise<ArrayBuffer> => {
   });
 };
 
-// Helper: Smartly convert sheet to JSON by finding the header row
-const smartSheetToJson = (sheet: XLSX.WorkSheet, keywords: string[]): any[] => {
-    // Get all data as array of arrays
-    const rawData = XLSX.utils.sheet_to_json(sheet, { header: 1 }) as any[][];
-    if (rawData.length === 0) return [];
-
-    // Find header row index
-    let headerRowIndex = 0;
-    // Scan first 20 rows
+// Helper: Find the header row as the first of the top 20 rows containing any keyword
+const findHeaderRow = (rawData: any[][], keywords: string[]): number => {
     for (let i = 0; i < Math.min(rawData.length, 20); i++) {
-        const rowStr = rawData[i].join(' ').toLowerCase();
+        const rowStr = (rawData[i] || []).join(' ').toLowerCase();
         // Check if row contains enough target keywords to be the header
         const matchCount = keywords.filter(k => rowStr.includes(k.toLowerCase())).length;
         if (matchCount >= 1) { // Threshold: at least 1 keyword found
-            headerRowIndex = i;
-            break;
+            return i;
         }
     }
+    return 0;
+};
+
+// Header cells of a row; blank cells (e.g. the unnamed row-name column of R exports) get a positional name
+const headerKeys = (row: any[] = []): string[] =>
+    Array.from(row, (h, idx) => (h === undefined || h === null || String(h).trim() === '') ? `Column ${idx + 1}` : String(h).trim());
+
+// Helper: Smartly convert table rows to JSON by finding the header row
+const smartRowsToJson = (rawData: any[][], keywords: string[], headerRowIndex?: number): any[] => {
+    if (rawData.length === 0) return [];
+
+    if (headerRowIndex === undefined) headerRowIndex = findHeaderRow(rawData, keywords);
 
     // Convert to objects using the found header row
-    const headers = rawData[headerRowIndex].map(h => String(h).trim());
+    const headers = headerKeys(rawData[headerRowIndex]);
     const result: any[] = [];
     
     for (let i = headerRowIndex + 1; i < rawData.length; i++) {
@@ -51,135 +65,1199 @@ const smartSheetToJson = (sheet: XLSX.WorkSheet, keywords: string[]): any[] => {
     return result;
 };
 
+// Streaming counterpart of smartRowsToJson: data rows reach the handler one at a time, so a large table is never
+// held whole. `start` gets the header keys with the first data row and returns the row handler.
+const streamTableObjects = async (
+    file: File,
+    keywords: string[],
+    headerRowIndex: number | undefined,
+    start: (keys: string[]) => (row: any) => void,
+    options: StreamOptions = {}
+): Promise<void> => {
+    // The header is looked for among the first rows, as findHeaderRow does
+    const headRows = Math.max(20, (headerRowIndex ?? 0) + 1);
+    const head: any[][] = [];
+    let headers: string[] | undefined;
+    let onObject: ((row: any) => void) | undefined;
+    const emit = (row: any[]) => {
+        if (!row || row.length === 0) return;
+        const obj: any = {};
+        headers!.forEach((h, idx) => {
+            obj[h] = row[idx];
+        });
+        (onObject ??= start(Object.keys(obj)))(obj);
+    };
+    const begin = () => {
+        const index = headerRowIndex ?? findHeaderRow(head, keywords);
+        headers = headerKeys(head[index]);
+        head.slice(index + 1).forEach(emit);
+    };
+
+    await forEachTableRow(file, row => {
+        if (headers) return emit(row);
+        head.push(row);
+        if (head.length >= headRows) begin();
+    }, options);
+    if (!headers && head.length > 0) begin();
+};
+
+const DGE_KEYWORDS = ['logfc', 'fdr', 'pvalue', 'padj', 'foldchange', 'fold_change', 'prob'];
+// Include 'significant' for TopGO and 'p-value' variants.
+const ENRICHMENT_KEYWORDS = [
+    'term', 'description', 'pathway', 'id', 
+    'count', 'significant', 'n', 
+    'pvalue', 'p-value', 'p.adjust', 'fdr', 'qvalue', 'q-value'
+];
+
+export const TABLE_ROLES: Record<TableKind, ColumnRole[]> = {
+    dge: ['id', 'logFC', 'pAdj', 'pValue', 'baseExpr', 'symbol', 'biotype'],
+    enrichment: ['term', 'count', 'pAdj', 'category']
+};
+
+// Normalised header list used to recognise files with the same layout
+export const headerSignature = (headers: string[]): string =>
+    headers.map(h => h.toLowerCase().replace(/\s+/g, ' ')).join('|');
+
+// Standard output tables of common DGE tools, recognised by their header signature
+interface DGEToolProfile {
+    tool: string;
+    signature: string[]; // Columns that must all be present (case-insensitive)
+    columns: { logFC: string; pAdj: string; pValue: string; baseExpr: string; id?: string };
+    otherColumns: string[]; // Remaining statistic columns, never used as the gene ID
+    baseExprLabel: string; // MA plot x-axis title
+    transform?: { logFC?: (v: number) => number; baseExpr?: (v: number) => number };
+}
+
+export const DGE_TOOL_PROFILES: DGEToolProfile[] = [
+    {
+        tool: 'DESeq2',
+        signature: ['baseMean', 'log2FoldChange', 'pvalue', 'padj'],
+        columns: { logFC: 'log2FoldChange', pAdj: 'padj', pValue: 'pvalue', baseExpr: 'baseMean' },
+        otherColumns: ['lfcSE', 'stat'],
+        baseExprLabel: 'Log2 (baseMean + 1)',
+        transform: { baseExpr: v => Math.log2(v + 1) }
+    },
+    {
+        tool: 'limma',
+        signature: ['logFC', 'AveExpr', 'P.Value', 'adj.P.Val'],
+        columns: { logFC: 'logFC', pAdj: 'adj.P.Val', pValue: 'P.Value', baseExpr: 'AveExpr' },
+        otherColumns: ['t', 'B', 'F'],
+        baseExprLabel: 'Average Log2 Expression'
+    },
+    {
+        tool: 'edgeR',
+        signature: ['logFC', 'logCPM', 'PValue', 'FDR'],
+        columns: { logFC: 'logFC', pAdj: 'FDR', pValue: 'PValue', baseExpr: 'logCPM' },
+        otherColumns: ['LR', 'F'],
+        baseExprLabel: 'Log CPM'
+    },
+    {
+        // Wald test output; b is on the natural-log scale of sleuth's default transform
+        tool: 'Sleuth',
+        signature: ['target_id', 'pval', 'qval', 'b'],
+        columns: { id: 'target_id', logFC: 'b', pAdj: 'qval', pValue: 'pval', baseExpr: 'mean_obs' },
+        otherColumns: ['se_b', 'var_obs', 'tech_var', 'sigma_sq', 'smooth_sigma_sq', 'final_sigma_sq'],
+        baseExprLabel: 'Mean Ln Expression',
+        transform: { logFC: v => v / Math.LN2 }
+    }
+];
+
+export const detectDGETool = (keys: string[]): DGEToolProfile | undefined => {
+    const lower = keys.map(k => k.toLowerCase());
+    return DGE_TOOL_PROFILES.find(p => p.signature.every(col => lower.includes(col.toLowerCase())));
+};
+
+// Resolve a profile column name to the header as spelled in the file
+const headerFor = (keys: string[], name: string): string | undefined => keys.find(k => k.toLowerCase() === name.toLowerCase());
+
+// Optional annotation columns shown in the report tooltips
+const detectAnnotationColumns = (keys: string[], id?: string): ColumnMapping => ({
+    symbol: keys.find(k => k !== id && /symbol|gene_?name|external_gene_name|^name$/i.test(k)),
+    biotype: keys.find(k => k !== id && /biotype|gene_?type|transcript_?type/i.test(k))
+});
+
+// Smart Column Detection: match header names, recording required roles that had to fall back to a position
+export const detectColumnMapping = (keys: string[], kind: TableKind): { mapping: ColumnMapping, fallbacks: ColumnRole[] } => {
+    const fallbacks: ColumnRole[] = [];
+    const pick = (role: ColumnRole, found: string | undefined, fallback?: string): string | undefined => {
+        if (found !== undefined) return found;
+        fallbacks.push(role);
+        return fallback;
+    };
+
+    if (kind === 'dge') {
+        const profile = detectDGETool(keys);
+        if (profile) {
+            const known = [...Object.values(profile.columns), ...profile.otherColumns].map(c => c.toLowerCase());
+            const id = (profile.columns.id && headerFor(keys, profile.columns.id)) || keys.find(k => !known.includes(k.toLowerCase()));
+            return {
+                mapping: {
+                    id,
+                    logFC: headerFor(keys, profile.columns.logFC),
+                    pAdj: headerFor(keys, profile.columns.pAdj),
+                    pValue: headerFor(keys, profile.columns.pValue),
+                    baseExpr: headerFor(keys, profile.columns.baseExpr),
+                    ...detectAnnotationColumns(keys, id)
+                },
+                fallbacks
+            };
+        }
+
+        // NOISeq reports log2 ratio "M" and probability of differential expression "prob"
+        const prob = keys.find(k => /^prob$/i.test(k));
+        const logFC = pick('logFC', keys.find(k => /log2?fc|fold[-_. ]?change|log2_fold_change/i.test(k)) || (prob ? keys.find(k => /^m$/i.test(k)) : undefined), keys[1]);
+        const pAdjByName = keys.find(k => /fdr|padj|adj\.?p|q_?value/i.test(k)) || prob;
+        const pValue = keys.find(k => k !== pAdjByName && /^p[-_. ]?val(ue)?$/i.test(k));
+        // Raw p-value-only tables are fine; otherwise guess the last column
+        const pAdj = pAdjByName || (pValue ? undefined : pick('pAdj', undefined, keys[keys.length - 1]));
+        const baseExpr = keys.find(k => /logcpm|log2?cpm|cpm/i.test(k));
+        // Detect ID/Name column
+        const id = keys.find(k => !/biotype|type$/i.test(k) && /gene|transcript|id|symbol|name|target_id/i.test(k)) || keys[0];
+        return { mapping: { id, logFC, pAdj, pValue, baseExpr, ...detectAnnotationColumns(keys, id) }, fallbacks };
+    }
+
+    // 1. Detect Term Column (Description preferred over ID)
+    let term = keys.find(k => /description/i.test(k));
+    if (!term) term = keys.find(k => /term/i.test(k));
+    if (!term) term = keys.find(k => /pathway/i.test(k));
+    if (!term) term = keys.find(k => /id/i.test(k)); // Fallback to ID
+    term = pick('term', term, keys[0]);
+
+    // 2. Detect Count Column
+    let count = keys.find(k => /^count/i.test(k)); 
+    if (!count) count = keys.find(k => /significant/i.test(k));
+    if (!count) count = keys.find(k => /^n$/i.test(k));
+    if (!count) count = keys.find(k => /gene_?count/i.test(k));
+    
+    // 3. Detect Category Column (for GO)
+    // Looking for "ontology", "category", "namespace"
+    const category = keys.find(k => /ontology|category|namespace|type/i.test(k));
+
+    // 4. Detect P-Value / FDR
+    const pAdj = keys.find(k => /p[-_.]?val|p[-_.]?adj|fdr|q[-_.]?val/i.test(k));
+
+    return { mapping: { term, count, category, pAdj }, fallbacks };
+};
+
+// Visit each row of an upload's first table: .csv / .tsv / .txt are streamed through the delimited-text reader,
+// anything else is read whole by SheetJS
+const forEachTableRow = async (file: File, onRow: (row: any[]) => void, options: StreamOptions = {}): Promise<void> => {
+    if (isDelimitedText(file.name)) {
+        await streamDelimited(file, onRow, options);
+        return;
+    }
+    const buffer = await readFileAsArrayBuffer(file);
+    options.signal?.throwIfAborted();
+    const workbook = XLSX.read(buffer, { type: 'array' });
+    const firstSheetName = workbook.SheetNames[0];
+    if (firstSheetName) (XLSX.utils.sheet_to_json(workbook.Sheets[firstSheetName], { header: 1 }) as any[][]).forEach(onRow);
+};
+
+// All rows of an upload's first table, for the small per-project tables. With `maxRows`, only the head is read.
+const readTableRows = async (file: File, options: StreamOptions & { maxRows?: number } = {}): Promise<any[][]> => {
+    const { maxRows } = options;
+    if (maxRows === undefined) {
+        const rows: any[][] = [];
+        await forEachTableRow(file, row => rows.push(row), options);
+        return rows;
+    }
+    if (isDelimitedText(file.name)) {
+        const headBytes = 65536;
+        const head = await readHead(file, headBytes);
+        // Drop a last line cut off by the byte limit
+        const complete = head.length === headBytes ? head.slice(0, head.lastIndexOf('\n') + 1) : head;
+        return parseDelimited(complete, sniffDelimited(complete, file.name), maxRows);
+    }
+    const buffer = await readFileAsArrayBuffer(file);
+    const workbook = XLSX.read(buffer, { type: 'array', sheetRows: maxRows });
+    const firstSheetName = workbook.SheetNames[0];
+    return firstSheetName ? XLSX.utils.sheet_to_json(workbook.Sheets[firstSheetName], { header: 1 }) as any[][] : [];
+};
+
+// Read the top of a DGE / enrichment sheet for the column-mapping step
+export const readSheetPreview = async (file: File, kind: TableKind, headerRow?: number): Promise<SheetPreview> => {
+    const rows = await readTableRows(file, { maxRows: 30 });
+    return previewFromRows(rows, kind, headerRow ?? findHeaderRow(rows, kind === 'dge' ? DGE_KEYWORDS : ENRICHMENT_KEYWORDS));
+};
+
+// Re-derive headers and the auto-detected mapping for a chosen header row
+export const previewFromRows = (rows: any[][], kind: TableKind, headerRow: number): SheetPreview => {
+    const headers = headerKeys(rows[headerRow]);
+    const { mapping, fallbacks } = detectColumnMapping(headers, kind);
+    return { kind, rows, headerRow, headers, signature: headerSignature(headers), detected: mapping, fallbacks };
+};
+
 // Parse standard tabular data (Data Stats, Mapping Stats)
-export const parseTableData = async (file: File): Promise<string[][]> => {
-  const buffer = await readFileAsArrayBuffer(file);
-  const workbook = XLSX.read(buffer, { type: 'array' });
-  const firstSheetName = workbook.SheetNames[0];
-  if (!firstSheetName) return [];
-  const firstSheet = workbook.Sheets[firstSheetName];
+export const parseTableData = async (file: File, options: StreamOptions = {}): Promise<string[][]> => {
   // For simple stats tables, we assume standard layout (header row 0) or just data
-  const jsonData = XLSX.utils.sheet_to_json(firstSheet, { header: 1 }) as string[][];
+  const jsonData = await readTableRows(file, options) as string[][];
   return jsonData.filter(row => row.length > 0 && row.some(cell => !!cell)); // Remove empty rows
 };
 
+// Column holding sample IDs in a per-sample table: the first header mentioning "sample", else the first column
+export const sampleColumn = (table: string[][]): number =>
+    Math.max(0, (table[0] || []).findIndex(h => /sample/i.test(String(h ?? ''))));
+
+export const sampleIdsOf = (table: string[][]): string[] => {
+    const col = sampleColumn(table);
+    return table.slice(1).map(row => String(row[col] ?? '').trim()).filter(Boolean);
+};
+
+export const aliasOf = (aliases: Record<string, string>, id: unknown): string => aliases[String(id ?? '').trim()] ?? String(id ?? '');
+
 // Parse DGE Summary Table
-export const parseDGESummary = async (file: File): Promise<any[]> => {
-  const buffer = await readFileAsArrayBuffer(file);
-  const workbook = XLSX.read(buffer, { type: 'array' });
-  const firstSheetName = workbook.SheetNames[0];
-  if (!firstSheetName) return [];
-  
-  const firstSheet = workbook.Sheets[firstSheetName];
+export const parseDGESummary = async (file: File, options: StreamOptions = {}): Promise<any[]> => {
+  const rows = await readTableRows(file, options);
   // Expanded keywords to catch various formats including "Significant Upregulated" etc.
-  return smartSheetToJson(firstSheet, ['comparison', 'total', 'up', 'down', 'sig', 'regulated']);
+  return smartRowsToJson(rows, ['comparison', 'total', 'up', 'down', 'sig', 'regulated']);
 };
 
-// Parse GTF File to count unique transcripts and calculate length stats
-export const parseGTF = async (file: File): Promise<TranscriptStat> => {
-    const text = await file.text();
-    const lines = text.split('\n');
-    
-    const transcriptLengths: Record<string, number> = {};
-    
-    // Naive GTF parsing: Look for 'exon' lines and 'transcript_id'
-    // Sum lengths of exons for each transcript
-    
-    for (const line of lines) {
-        if (!line || line.startsWith('#')) continue;
+// Sample sheet columns by role; anything else becomes a covariate
+const SAMPLE_SHEET_COLUMNS = {
+    id: /^(sample|samples|sample[-_. ]?(id|name)|id|name)$/i,
+    condition: /^(condition|group|treatment|genotype|phenotype|class)$/i,
+    replicate: /^(rep|replicate|replicate[-_. ]?(id|no|number))$/i,
+    batch: /^(batch|lane|run|library[-_. ]?batch)$/i
+};
+
+// Parse an experimental design sheet (one row per sample). Without a recognised sample column the first column is used;
+// without a condition column every sample gets an empty condition, to be filled in the builder.
+export const parseSampleSheet = async (file: File, options: StreamOptions = {}): Promise<SampleInfo[]> => {
+    const jsonData = smartRowsToJson(await readTableRows(file, options), ['sample', 'condition', 'group', 'treatment', 'replicate', 'batch']);
+    if (jsonData.length === 0) return [];
+
+    const keys = Object.keys(jsonData[0]);
+    const idKey = keys.find(k => SAMPLE_SHEET_COLUMNS.id.test(k)) || keys[0];
+    const conditionKey = keys.find(k => SAMPLE_SHEET_COLUMNS.condition.test(k));
+    const replicateKey = keys.find(k => SAMPLE_SHEET_COLUMNS.replicate.test(k));
+    const batchKey = keys.find(k => SAMPLE_SHEET_COLUMNS.batch.test(k));
+    const covariateKeys = keys.filter(k => ![idKey, conditionKey, replicateKey, batchKey].includes(k) && !/^Column \d+$/.test(k));
+    const text = (value: any): string => value === undefined || value === null ? '' : String(value).trim();
+
+    return jsonData
+        .filter(row => text(row[idKey]) !== '')
+        .map(row => ({
+            id: text(row[idKey]),
+            condition: conditionKey ? text(row[conditionKey]) : '',
+            replicate: replicateKey ? text(row[replicateKey]) || undefined : undefined,
+            batch: batchKey ? text(row[batchKey]) || undefined : undefined,
+            covariates: Object.fromEntries(covariateKeys.map(k => [k, text(row[k])]))
+        }));
+};
+
+// Parse a two-column alias sheet (sample ID, display name); a header row is skipped when present
+export const parseAliasMap = async (file: File): Promise<Record<string, string>> => {
+    const rows = await readTableRows(file);
+    const aliases: Record<string, string> = {};
+    rows.forEach((row, idx) => {
+        const [from, to] = [row[0], row[1]].map(v => v === undefined || v === null ? '' : String(v).trim());
+        if (!from || !to) return;
+        if (idx === 0 && /sample|id|name/i.test(from) && /alias|name|label|client/i.test(to)) return;
+        aliases[from] = to;
+    });
+    return aliases;
+};
+
+export interface StreamOptions {
+    signal?: AbortSignal; // Aborting stops reading and rejects with an AbortError
+    onProgress?: (fraction: number) => void; // Share of the file's bytes read so far
+}
+
+// Stream a text file line by line via File.stream(), so multi-GB files never sit in memory whole.
+// Gzipped files are decompressed on the fly; progress counts compressed bytes against file.size.
+export const readLines = async (file: File, onLine: (line: string) => void, options: StreamOptions = {}): Promise<void> => {
+    let bytesRead = 0;
+    const counted = file.stream().pipeThrough(new TransformStream<Uint8Array, Uint8Array>({
+        transform(chunk, controller) {
+            bytesRead += chunk.length;
+            controller.enqueue(chunk);
+        }
+    }));
+    const reader = (isGzipped(file.name) ? gunzip(counted) : counted).getReader();
+    const decoder = new TextDecoder();
+    let buffered = '';
+
+    const emit = (line: string) => onLine(line.endsWith('\r') ? line.slice(0, -1) : line);
+
+    try {
+        while (true) {
+            if (options.signal?.aborted) {
+                await reader.cancel();
+                throw new DOMException(`Parsing of ${file.name} cancelled`, 'AbortError');
+            }
+            const { done, value } = await reader.read();
+            if (done) break;
+
+            buffered += decoder.decode(value, { stream: true });
+            const lines = buffered.split('\n');
+            buffered = lines.pop() as string;
+            lines.forEach(emit);
+            options.onProgress?.(file.size ? bytesRead / file.size : 1);
+        }
+        buffered += decoder.decode();
+        if (buffered) emit(buffered);
+    } finally {
+        reader.releaseLock();
+    }
+};
+
+// First `maxBytes` of a file as text (decompressed when gzipped), for content sniffing
+export const readHead = async (file: File, maxBytes = 65536): Promise<string> => {
+    const reader = (isGzipped(file.name) ? gunzip(file.stream()) : file.slice(0, maxBytes).stream()).getReader();
+    const decoder = new TextDecoder();
+    let text = '';
+    try {
+        while (text.length < maxBytes) {
+            const { done, value } = await reader.read();
+            if (done) break;
+            text += decoder.decode(value, { stream: true });
+        }
+        await reader.cancel();
+    } finally {
+        reader.releaseLock();
+    }
+    return text.slice(0, maxBytes);
+};
+
+// --- Delimited text: .csv / .tsv / .txt tables, read without SheetJS ---
+
+export interface DelimitedFormat {
+    delimiter: string;
+    decimalComma: boolean; // "0,05" is 0.05 and dots group thousands, as in European Excel exports
+}
+
+const DELIMITERS = ['\t', ',', ';', '|'];
+const NUMBER = /^[-+]?(\d+\.?\d*|\.\d+)([eE][-+]?\d+)?$/;
+const THOUSANDS = /^[-+]?\d{1,3}(,\d{3})+(\.\d+)?$/;
+const COMMA_NUMBER = /^[-+]?(\d{1,3}(\.\d{3})*|\d+)(,\d+)?([eE][-+]?\d+)?$/;
+
+export const isDelimitedText = (filename: string): boolean => /\.(csv|tsv|txt)$/i.test(innerFileName(filename));
+
+const countOutsideQuotes = (line: string, delimiter: string): number => {
+    let count = 0, quoted = false;
+    for (const ch of line) {
+        if (ch === '"') quoted = !quoted;
+        else if (!quoted && ch === delimiter) count++;
+    }
+    return count;
+};
+
+// Delimiter = the one splitting most of the first lines into the same number of fields; decimal commas when
+// comma decimals outnumber dot decimals in a file not delimited by commas
+export const sniffDelimited = (sample: string, filename = ''): DelimitedFormat => {
+    const lines = sample.replace(/^\uFEFF/, '').split(/\r?\n/).filter(line => line.trim()).slice(0, 30);
+    let delimiter = /\.csv$/i.test(innerFileName(filename)) ? ',' : '\t';
+    let bestScore = 0;
+    DELIMITERS.forEach(candidate => {
+        const counts = lines.map(line => countOutsideQuotes(line, candidate)).filter(n => n > 0);
+        if (counts.length === 0) return;
+        // Lines sharing the most common field count
+        const frequency = new Map<number, number>();
+        counts.forEach(n => frequency.set(n, (frequency.get(n) || 0) + 1));
+        const score = Math.max(...frequency.values());
+        if (score > bestScore) {
+            delimiter = candidate;
+            bestScore = score;
+        }
+    });
+    if (delimiter === ',') return { delimiter, decimalComma: false };
+    const cells = lines.flatMap(line => line.split(delimiter).map(c => c.trim().replace(/^"|"$/g, '')));
+    const commaDecimals = cells.filter(c => /^[-+]?\d+,\d+([eE][-+]?\d+)?$/.test(c)).length;
+    const dotDecimals = cells.filter(c => /^[-+]?\d*\.\d+([eE][-+]?\d+)?$/.test(c) && !/^[-+]?\d{1,3}(\.\d{3})+$/.test(c)).length;
+    return { delimiter, decimalComma: commaDecimals > dotDecimals };
+};
+
+// Numeric cells become numbers, as SheetJS made them; IDs with leading zeros and percentages stay text
+const cellValue = (raw: string, decimalComma: boolean): any => {
+    const cell = raw.trim();
+    if (cell === '') return undefined;
+    let numeric = cell;
+    if (decimalComma && COMMA_NUMBER.test(cell)) numeric = cell.replace(/\./g, '').replace(',', '.');
+    else if (!decimalComma && THOUSANDS.test(cell)) numeric = cell.replace(/,/g, '');
+    return NUMBER.test(numeric) && !/^[-+]?0\d/.test(numeric) ? Number(numeric) : cell;
+};
+
+// Line-by-line row builder; quoted fields may contain delimiters, doubled quotes and line breaks
+const delimitedRowReader = ({ delimiter, decimalComma }: DelimitedFormat, onRow: (row: any[]) => void) => {
+    let cells: string[] = [];
+    let cell = '';
+    let quoted = false;
+    const finishRow = () => {
+        cells.push(cell);
+        if (cells.some(c => c.trim() !== '')) onRow(cells.map(c => cellValue(c, decimalComma)));
+        cells = [];
+        cell = '';
+    };
+    return {
+        push: (line: string) => {
+            if (!quoted && !line.includes('"')) {
+                // Fast path for the common unquoted line
+                cells = line.split(delimiter);
+                cell = cells.pop() as string;
+                return finishRow();
+            }
+            for (let i = 0; i < line.length; i++) {
+                const ch = line[i];
+                if (quoted) {
+                    if (ch !== '"') cell += ch;
+                    else if (line[i + 1] === '"') { cell += '"'; i++; }
+                    else quoted = false;
+                } else if (ch === '"' && cell.trim() === '') {
+                    quoted = true;
+                    cell = '';
+                } else if (ch === delimiter) {
+                    cells.push(cell);
+                    cell = '';
+                } else {
+                    cell += ch;
+                }
+            }
+            if (quoted) cell += '\n';
+            else finishRow();
+        },
+        // A file ending inside an open quote still yields its last row
+        end: () => {
+            if (quoted || cells.length > 0 || cell) finishRow();
+            quoted = false;
+        }
+    };
+};
+
+// Split delimited text into rows of cells; fully blank lines are skipped
+export const parseDelimited = (text: string, format: DelimitedFormat = sniffDelimited(text), maxRows = Infinity): any[][] => {
+    const rows: any[][] = [];
+    const reader = delimitedRowReader(format, row => rows.push(row));
+    for (const line of text.replace(/^\uFEFF/, '').split(/\r?\n/)) {
+        if (rows.length >= maxRows) break;
+        reader.push(line);
+    }
+    if (rows.length < maxRows) reader.end();
+    return rows.slice(0, maxRows);
+};
+
+// Stream a delimited file row by row, so large TSVs are never held as one string or workbook.
+// The format is sniffed from the head of the file unless given; it is returned for callers that report it.
+export const streamDelimited = async (file: File, onRow: (row: any[]) => void, options: StreamOptions & { format?: DelimitedFormat } = {}): Promise<DelimitedFormat> => {
+    const format = options.format || sniffDelimited(await readHead(file), file.name);
+    const reader = delimitedRowReader(format, onRow);
+    await readLines(file, reader.push, options);
+    reader.end();
+    return format;
+};
+
+// --- Aligner logs: one STAR Log.final.out or HISAT2 summary per sample ---
+
+const STAR_KEYS: [RegExp, AlignerMetric][] = [
+    [/^Number of input reads$/, 'inputReads'],
+    [/^Uniquely mapped reads number$/, 'uniqueReads'],
+    [/^Uniquely mapped reads %$/, 'uniquePct'],
+    [/^% of reads mapped to multiple loci$/, 'multiPct'],
+    [/^% of reads mapped to too many loci$/, 'tooManyLociPct'],
+    [/^% of reads unmapped: too short$/, 'unmappedShortPct'],
+    [/^% of reads unmapped: other$/, 'unmappedOtherPct'],
+    [/^Number of splices: Total$/, 'splices'],
+    [/^Mismatch rate per base, %$/, 'mismatchPct']
+];
+
+// "S1.Log.final.out" / "S1_hisat2.summary.txt" / "S1.align.log" -> "S1"
+export const sampleFromLogName = (filename: string): string =>
+    innerFileName(filename)
+        .replace(/\.(txt|log|out)$/i, '')
+        .replace(/(?:(?:^|[._-])(?:Log\.final|Log|final|summary|align(?:ment)?|hisat2?|bowtie2?|star))+$/i, '');
+
+const parseStarLog = (text: string): AlignerLog['metrics'] => {
+    const metrics: AlignerLog['metrics'] = {};
+    text.split(/\r?\n/).forEach(line => {
+        const [rawKey, rawValue] = line.split('|');
+        if (rawValue === undefined) return;
+        const key = rawKey.trim();
+        const entry = STAR_KEYS.find(([pattern]) => pattern.test(key));
+        const value = parseFloat(rawValue.replace('%', ''));
+        if (entry && !isNaN(value)) metrics[entry[1]] = value;
+    });
+    if (metrics.uniquePct !== undefined) metrics.mappedPct = metrics.uniquePct + (metrics.multiPct || 0) + (metrics.tooManyLociPct || 0);
+    return metrics;
+};
+
+// Classic HISAT2 / Bowtie2 summary; paired runs report concordant pairs, single-end runs reads
+const parseHisatSummary = (text: string): AlignerLog['metrics'] => {
+    const metrics: AlignerLog['metrics'] = {};
+    const count = (re: RegExp) => { const m = text.match(re); return m ? parseFloat(m[1]) : undefined; };
+    metrics.inputReads = count(/^\s*(\d+) reads; of these:/m) ?? count(/Total (?:reads|pairs):\s*(\d+)/i);
+    metrics.uniquePct = count(/\(([\d.]+)%\) aligned concordantly exactly 1 time/) ?? count(/\(([\d.]+)%\) aligned exactly 1 time/) ?? count(/Aligned (?:concordantly )?1 time:\s*\d+ \(([\d.]+)%\)/i);
+    metrics.multiPct = count(/\(([\d.]+)%\) aligned concordantly >1 times/) ?? count(/\(([\d.]+)%\) aligned >1 times/) ?? count(/Aligned (?:concordantly )?>1 times:\s*\d+ \(([\d.]+)%\)/i);
+    metrics.mappedPct = count(/([\d.]+)% overall alignment rate/) ?? count(/Overall alignment rate:\s*([\d.]+)%/i);
+    if (metrics.inputReads !== undefined && metrics.uniquePct !== undefined) metrics.uniqueReads = Math.round(metrics.inputReads * metrics.uniquePct / 100);
+    (Object.keys(metrics) as AlignerMetric[]).forEach(k => metrics[k] === undefined && delete metrics[k]);
+    return metrics;
+};
+
+// Parse a native aligner log; null for anything else (e.g. a mapping statistics spreadsheet)
+export const parseAlignerLog = async (file: File): Promise<AlignerLog | null> => {
+    if (/\.(xlsx|xls|csv|tsv)$/i.test(innerFileName(file.name))) return null;
+    const text = await readHead(file);
+    const sample = sampleFromLogName(file.name) || innerFileName(file.name);
+    if (/Uniquely mapped reads %\s*\|/.test(text)) return { sample, aligner: 'STAR', metrics: parseStarLog(text) };
+    if (/overall alignment rate/i.test(text)) return { sample, aligner: 'HISAT2', metrics: parseHisatSummary(text) };
+    return null;
+};
+
+const ALIGNER_COLUMNS: [AlignerMetric, string][] = [
+    ['inputReads', 'Input Reads'],
+    ['uniqueReads', 'Uniquely Mapped Reads'],
+    ['uniquePct', 'Unique %'],
+    ['mappedPct', 'Total Mapped %'],
+    ['multiPct', 'Multi-mapped %'],
+    ['tooManyLociPct', 'Too Many Loci %'],
+    ['unmappedShortPct', 'Unmapped: Too Short %'],
+    ['unmappedOtherPct', 'Unmapped: Other %'],
+    ['splices', 'Splices'],
+    ['mismatchPct', 'Mismatch Rate %']
+];
+
+// Sample-by-metric mapping table over all uploaded logs; columns no log reports are left out
+export const alignerLogTable = (logs: AlignerLog[]): string[][] => {
+    if (logs.length === 0) return [];
+    const columns = ALIGNER_COLUMNS.filter(([metric]) => logs.some(log => log.metrics[metric] !== undefined));
+    const sorted = [...logs].sort((a, b) => a.sample.localeCompare(b.sample, undefined, { numeric: true }));
+    const mixed = new Set(logs.map(l => l.aligner)).size > 1;
+    const cell = (metric: AlignerMetric, value?: number): string => {
+        if (value === undefined) return '';
+        return metric.endsWith('Pct') ? value.toFixed(2) : Math.round(value).toLocaleString('en-US');
+    };
+    return [
+        ['Sample', ...(mixed ? ['Aligner'] : []), ...columns.map(([, label]) => label)],
+        ...sorted.map(log => [
+            log.sample,
+            ...(mixed ? [log.aligner] : []),
+            ...columns.map(([metric]) => cell(metric, log.metrics[metric]))
+        ])
+    ];
+};
+
+// --- MultiQC: multiqc_data.json, or the text files of multiqc_data/ ---
+
+// General statistics keys of FastQC and fastp, as found in the JSON or after the namespace of multiqc_general_stats.txt headers
+const GENERAL_STATS_KEYS: [RegExp, ReadQCMetric][] = [
+    [/^(total_sequences|total sequences|(summary_)?before_filtering_total_reads|total_reads)$/, 'totalReads'],
+    [/^(avg_sequence_length|(summary_)?before_filtering_read1_mean_length|read_length)$/, 'readLength'],
+    [/^(percent_gc|%gc|(summary_)?after_filtering_gc_content|gc_content)$/, 'gcPct'],
+    [/^(percent_duplicates|pct_duplication|duplication_rate)$/, 'duplicationPct'],
+    [/^((summary_)?after_filtering_q30_rate|percent_q30|pct_q30|q30_rate)$/, 'q30Pct'],
+    [/^(pct_adapter|percent_adapter|adapter_content)$/, 'adapterPct']
+];
+
+const PLOT_KINDS: [RegExp, QCCurveKind][] = [
+    [/per_base_sequence_quality|seq[-_]quality/i, 'quality'],
+    [/adapter[-_]content/i, 'adapter']
+];
+
+type PlotSeries = { name: string; points: [number, number][] };
+
+const plotKind = (id: string): QCCurveKind | undefined => PLOT_KINDS.find(([pattern]) => pattern.test(id))?.[1];
+
+const readText = async (file: File): Promise<string> => new TextDecoder().decode(await readFileAsArrayBuffer(file));
+
+// "FastQC_mqc-generalstats-fastqc-percent_gc" -> "percent_gc"
+const generalStatsKey = (header: string): string => header.trim().toLowerCase().split('-').pop() as string;
+
+// Add one module's values for a sample; the first module to report a metric wins
+const addGeneralStats = (stats: MultiQCData['generalStats'], sample: string, values: Record<string, any>) => {
+    const entry = stats[sample] || (stats[sample] = {});
+    Object.entries(values).forEach(([header, raw]) => {
+        const value = typeof raw === 'number' ? raw : parseFloat(String(raw ?? ''));
+        if (isNaN(value)) return;
+        const key = generalStatsKey(header);
+        // multiqc_fastqc.txt gives the share of reads left after deduplication
+        if (key === 'total_deduplicated_percentage') {
+            if (entry.duplicationPct === undefined) entry.duplicationPct = 100 - value;
+            return;
+        }
+        const metric = GENERAL_STATS_KEYS.find(([pattern]) => pattern.test(key))?.[1];
+        if (!metric || entry[metric] !== undefined) return;
+        // fastp reports rates and GC content as fractions
+        entry[metric] = metric.endsWith('Pct') && /rate|content/.test(key) && value <= 1 ? value * 100 : value;
+    });
+};
+
+const toPoints = (data: any[] = []): [number, number][] =>
+    data.map((p, idx): [number, number] => Array.isArray(p) ? [Number(p[0]), Number(p[1])] : p && typeof p === 'object' ? [Number(p.x), Number(p.y)] : [idx + 1, Number(p)])
+        .filter(([x, y]) => !isNaN(x) && !isNaN(y));
+
+// Datasets are arrays of series before MultiQC 1.20 and { lines } after; only the first (e.g. read 1) is used
+const jsonPlotSeries = (plot: any): PlotSeries[] => {
+    const dataset = (plot?.datasets || [])[0];
+    const lines: any[] = Array.isArray(dataset) ? dataset : dataset?.lines || [];
+    return lines.map(line => ({ name: String(line?.name ?? ''), points: toPoints(line?.data || line?.pairs) }));
+};
+
+// mqc_<plot>_1.txt: a header row of x values and one row of y values per series, or "(x, y)" cells
+const textPlotSeries = (text: string): PlotSeries[] => {
+    const rows = text.split(/\r?\n/).filter(line => line.trim()).map(line => line.split('\t'));
+    if (rows.length < 2) return [];
+    const xs = rows[0].slice(1).map(Number);
+    return rows.slice(1).map(row => ({
+        name: row[0].trim(),
+        points: row.slice(1).map((cell, idx): [number, number] => {
+            const pair = cell.match(/^\(\s*([-\d.e]+)\s*,\s*([-\d.e]+)\s*\)$/i);
+            return pair ? [Number(pair[1]), Number(pair[2])] : [xs[idx], parseFloat(cell)];
+        }).filter(([x, y]) => !isNaN(x) && !isNaN(y))
+    }));
+};
+
+// Adapter content has one series per sample and adapter ("S1 - Illumina Universal Adapter"), collapsed to the highest at each position
+const addCurves = (curves: QCCurves, kind: QCCurveKind, series: PlotSeries[]) => {
+    const bySample = curves[kind] || {};
+    series.filter(s => s.name && s.points.length > 0).forEach(({ name, points }) => {
+        const sample = kind === 'adapter' ? name.replace(/\s+-\s+.*$/, '') : name;
+        const byX = new Map<number, number>(bySample[sample] || []);
+        points.forEach(([x, y]) => byX.set(x, Math.max(byX.get(x) ?? -Infinity, y)));
+        bySample[sample] = Array.from(byX.entries()).sort((a, b) => a[0] - b[0]);
+    });
+    if (Object.keys(bySample).length > 0) curves[kind] = bySample;
+};
+
+// Parse multiqc_data.json, a multiqc_*.txt general statistics table or an mqc_*_plot export; null when the file is none of these
+export const parseMultiQC = async (file: File): Promise<MultiQCData | null> => {
+    const name = innerFileName(file.name);
+    const data: MultiQCData = { generalStats: {}, curves: {} };
+
+    if (/\.json$/i.test(name)) {
+        const json = JSON.parse(await readText(file));
+        if (!json.report_general_stats_data && !json.report_plot_data) return null;
+        // A list of { sample: values } per module, or in newer versions keyed by module with value lists
+        const modules = json.report_general_stats_data || [];
+        (Array.isArray(modules) ? modules : Object.values(modules)).forEach((module: any) =>
+            Object.entries(module || {}).forEach(([sample, values]: [string, any]) =>
+                (Array.isArray(values) ? values.map(v => v?.data || v) : [values]).forEach(v => addGeneralStats(data.generalStats, sample, v || {}))));
+        Object.entries(json.report_plot_data || {}).forEach(([id, plot]) => {
+            const kind = plotKind(id);
+            if (kind) addCurves(data.curves, kind, jsonPlotSeries(plot));
+        });
+    } else if (/^mqc_.*\.txt$/i.test(name)) {
+        const kind = plotKind(name);
+        if (!kind) throw new Error(`${name} is not a plot the report uses; upload the per-base quality or adapter content plot.`);
+        addCurves(data.curves, kind, textPlotSeries(await readText(file)));
+    } else {
+        const head = await readHead(file, 4096);
+        if (!/^multiqc_.*\.txt$/i.test(name) && !/mqc-generalstats/i.test(head.split('\n')[0])) return null;
+        const [header, ...rows] = (await readText(file)).split(/\r?\n/).filter(line => line.trim()).map(line => line.split('\t'));
+        rows.forEach(row => addGeneralStats(data.generalStats, row[0].trim(), Object.fromEntries(header.slice(1).map((h, idx) => [h, row[idx + 1]]))));
+    }
+
+    // FastQC adapter content is cumulative, so its peak is the share of reads carrying an adapter
+    Object.entries(data.curves.adapter || {}).forEach(([sample, points]) => {
+        const entry = data.generalStats[sample];
+        if (entry && entry.adapterPct === undefined) entry.adapterPct = Math.max(...points.map(([, y]) => y));
+    });
+    Object.keys(data.generalStats).forEach(sample => {
+        if (Object.keys(data.generalStats[sample]).length === 0) delete data.generalStats[sample];
+    });
+    if (Object.keys(data.generalStats).length === 0 && Object.keys(data.curves).length === 0) {
+        if (/\.json$/i.test(name)) throw new Error('No general statistics, per-base quality or adapter content found in the MultiQC data.');
+        return null;
+    }
+    return data;
+};
+
+const READ_QC_COLUMNS: [ReadQCMetric, string][] = [
+    ['totalReads', 'Total Reads'],
+    ['readLength', 'Read Length'],
+    ['gcPct', 'GC %'],
+    ['duplicationPct', 'Duplication %'],
+    ['q30Pct', 'Q30 %'],
+    ['adapterPct', 'Adapter %']
+];
+
+// Sample-by-metric Data & QC table from MultiQC general statistics; columns no sample has are left out
+export const multiqcStatsTable = (stats: MultiQCData['generalStats']): string[][] => {
+    const samples = Object.keys(stats).sort((a, b) => a.localeCompare(b, undefined, { numeric: true }));
+    if (samples.length === 0) return [];
+    const columns = READ_QC_COLUMNS.filter(([metric]) => samples.some(sample => stats[sample][metric] !== undefined));
+    const cell = (metric: ReadQCMetric, value?: number): string => {
+        if (value === undefined) return '';
+        return metric.endsWith('Pct') ? value.toFixed(2) : Math.round(value).toLocaleString('en-US');
+    };
+    return [
+        ['Sample', ...columns.map(([, label]) => label)],
+        ...samples.map(sample => [sample, ...columns.map(([metric]) => cell(metric, stats[sample][metric]))])
+    ];
+};
+
+// --- FastQC: fastqc_data.txt, or the _fastqc.zip archive holding it ---
+
+type FastQCModule = { name: string; status: QCStatus; rows: string[][] };
+
+// ">>Per base sequence quality<TAB>pass" ... ">>END_MODULE" blocks; "#" lines name the columns and are skipped
+const fastqcModules = (text: string): FastQCModule[] => {
+    const modules: FastQCModule[] = [];
+    let current: FastQCModule | null = null;
+    text.split(/\r?\n/).forEach(line => {
+        if (line.startsWith('>>END_MODULE')) {
+            current = null;
+        } else if (line.startsWith('>>')) {
+            const [name, status = ''] = line.slice(2).split('\t');
+            current = { name: name.trim(), status: status.trim().toLowerCase() as QCStatus, rows: [] };
+            modules.push(current);
+        } else if (current && line.trim() && !line.startsWith('#')) {
+            current.rows.push(line.split('\t'));
+        }
+    });
+    return modules.filter(m => ['pass', 'warn', 'fail'].includes(m.status));
+};
+
+// Grouped positions and lengths such as "10-14" -> 12
+const binMidpoint = (cell: string): number => {
+    const [from, to] = cell.split('-').map(Number);
+    return to === undefined ? from : (from + to) / 2;
+};
+
+// Read counts as % of all reads, so samples of different depth overlay
+const asShares = (points: [number, number][]): [number, number][] => {
+    const total = points.reduce((sum, [, y]) => sum + y, 0);
+    return total > 0 ? points.map(([x, y]) => [x, Math.round(y / total * 10000) / 100]) : points;
+};
+
+const readFastQCText = async (file: File): Promise<string> => {
+    if (!/\.zip$/i.test(file.name)) return readText(file);
+    // SheetJS bundles a zip reader (CFB) for .xlsx; FastQC archives hold <sample>_fastqc/fastqc_data.txt
+    const archive = XLSX.CFB.read(new Uint8Array(await readFileAsArrayBuffer(file)), { type: 'array' });
+    const idx = archive.FullPaths.findIndex((path: string) => /(^|\/)fastqc_data\.txt$/.test(path));
+    if (idx < 0) throw new Error(`No fastqc_data.txt inside ${file.name}.`);
+    return new TextDecoder().decode(new Uint8Array(archive.FileIndex[idx].content));
+};
+
+export const parseFastQC = async (file: File): Promise<FastQCReport> => {
+    const text = await readFastQCText(file);
+    if (!/^##FastQC/.test(text)) throw new Error(`${file.name} is not FastQC output (no ##FastQC header).`);
+    const modules = fastqcModules(text);
+    const rowsOf = (name: string): string[][] => modules.find(m => m.name === name)?.rows || [];
+    const measure = (key: string): string | undefined => rowsOf('Basic Statistics').find(row => row[0] === key)?.[1];
+    const points = (name: string): [number, number][] => rowsOf(name)
+        .map((row): [number, number] => [binMidpoint(row[0]), parseFloat(row[1])])
+        .filter(([x, y]) => !isNaN(x) && !isNaN(y));
+
+    const filename = measure('Filename');
+    const sample = filename
+        ? filename.replace(/\.(fastq|fq)(\.gz)?$|\.(bam|sam)$/i, '')
+        : innerFileName(file.name).replace(/(_fastqc)?(\.zip|_?fastqc_data\.txt)$/i, '');
+    const totalSequences = parseFloat(measure('Total Sequences') || '');
+    const gcPct = parseFloat(measure('%GC') || '');
+    return {
+        sample,
+        modules: modules.map(({ name, status }) => ({ name, status })),
+        totalSequences: isNaN(totalSequences) ? undefined : totalSequences,
+        gcPct: isNaN(gcPct) ? undefined : gcPct,
+        sequenceLength: measure('Sequence length'),
+        perBaseQuality: points('Per base sequence quality'),
+        gcContent: asShares(points('Per sequence GC content')),
+        lengthDistribution: asShares(points('Sequence Length Distribution'))
+    };
+};
+
+// Compiled once per key; annotation files run to millions of lines
+const attributePatterns: Record<string, [RegExp, RegExp]> = {};
+
+// GFF3 escapes reserved characters as %XX; only valid escapes are decoded, so a literal "50%" is kept as written
+const decodeGffValue = (value: string): string =>
+    value.includes('%') ? value.replace(/(%[0-9a-f]{2})+/gi, seq => {
+        try {
+            return decodeURIComponent(seq);
+        } catch {
+            return seq;
+        }
+    }) : value;
+
+// Attribute value from GTF (`key "value";`) or GFF3 (`key=value`) column 9
+const gtfAttribute = (attributes: string, key: string): string | undefined => {
+    const [gtfPattern, gffPattern] = attributePatterns[key] || (attributePatterns[key] = [
+        new RegExp(`(?:^|;)\\s*${key}\\s+"([^"]*)"`),
+        new RegExp(`(?:^|;)\\s*${key}=([^;]*)`)
+    ]);
+    const gtf = attributes.match(gtfPattern);
+    if (gtf) return gtf[1];
+    const gff = attributes.match(gffPattern);
+    return gff ? decodeGffValue(gff[1].trim()) : undefined;
+};
+
+const firstAttribute = (attributes: string, keys: string[]): string | undefined => {
+    for (const key of keys) {
+        const value = gtfAttribute(attributes, key);
+        if (value) return value;
+    }
+    return undefined;
+};
+
+// Transcript IDs an exon line belongs to: GTF `transcript_id "x";` or GFF3 `Parent=x,y`
+const exonTranscriptIds = (attributes: string): string[] => {
+    const gtf = gtfAttribute(attributes, 'transcript_id');
+    if (gtf) return [gtf];
+    const gff = gtfAttribute(attributes, 'Parent');
+    return gff ? gff.split(',').map(id => id.trim()) : [];
+};
+
+const TRANSCRIPT_BIOTYPE_KEYS = ['transcript_type', 'transcript_biotype'];
+const GENE_BIOTYPE_KEYS = ['gene_type', 'gene_biotype', 'biotype'];
+
+// Upper bounds (bp, exclusive) of the transcript length histogram; the last bin is open-ended
+const LENGTH_BINS = [500, 1000, 2000, 5000, 10000];
+
+const lengthBinLabels = (): string[] => {
+    const fmt = (bp: number) => bp >= 1000 ? `${bp / 1000}k` : String(bp);
+    return [
+        ...LENGTH_BINS.map((upper, idx) => idx === 0 ? `<${fmt(upper)}` : `${fmt(LENGTH_BINS[idx - 1])}-${fmt(upper)}`),
+        `≥${fmt(LENGTH_BINS[LENGTH_BINS.length - 1])}`
+    ];
+};
+
+const countBy = (values: (string | undefined)[]): Record<string, number> => {
+    const counts: Record<string, number> = {};
+    values.forEach(v => { if (v) counts[v] = (counts[v] || 0) + 1; });
+    return counts;
+};
+
+// Length at which transcripts at least that long cover half of the total assembled length
+const computeN50 = (lengths: number[], totalLen: number): number => {
+    const sorted = [...lengths].sort((a, b) => b - a);
+    let covered = 0;
+    for (const len of sorted) {
+        covered += len;
+        if (covered * 2 >= totalLen) return len;
+    }
+    return 0;
+};
+
+interface TranscriptAccumulator {
+    length: number;
+    exons: number;
+    chrom: string;
+    strand: string;
+    start: number;
+    end: number;
+    exonRanges: [number, number][];
+    geneId?: string;
+    biotype?: string;
+}
+
+// Attributes found on transcript (or other non-exon) lines rather than on each exon
+interface TranscriptInfo {
+    geneId?: string;
+    biotype?: string;
+    classCode?: string; // gffcompare class_code
+    refGeneId?: string;
+    refTranscriptId?: string;
+}
+
+interface AnnotationScan {
+    transcripts: Record<string, TranscriptAccumulator>;
+    info: Record<string, TranscriptInfo>;
+    geneBiotypes: Record<string, string>;
+}
+
+// Single streaming pass over a GTF / GFF3 file collecting per-transcript exon totals and attributes
+const scanAnnotation = async (file: File, options: StreamOptions): Promise<AnnotationScan> => {
+    const transcripts: Record<string, TranscriptAccumulator> = {};
+    // GFF3 keeps gene links and biotypes on the transcript/gene lines rather than on each exon
+    const info: Record<string, TranscriptInfo> = {};
+    const geneBiotypes: Record<string, string> = {};
+
+    await readLines(file, (line) => {
+        if (!line || line.startsWith('#')) return;
         
         const parts = line.split('\t');
-        if (parts.length < 9) continue;
+        if (parts.length < 9) return;
         
         const featureType = parts[2];
-        if (featureType !== 'exon') continue;
+        const attributes = parts[8];
+
+        if (featureType !== 'exon') {
+            const id = gtfAttribute(attributes, 'ID') || (featureType === 'transcript' ? gtfAttribute(attributes, 'transcript_id') : undefined);
+            const geneBiotype = firstAttribute(attributes, GENE_BIOTYPE_KEYS);
+            const geneId = featureType === 'gene' ? (gtfAttribute(attributes, 'gene_id') || id) : undefined;
+            if (geneId && geneBiotype) geneBiotypes[geneId] = geneBiotype;
+            if (id && featureType !== 'gene') {
+                info[id] = {
+                    geneId: gtfAttribute(attributes, 'Parent')?.split(',')[0] || gtfAttribute(attributes, 'gene_id'),
+                    biotype: firstAttribute(attributes, TRANSCRIPT_BIOTYPE_KEYS) || gtfAttribute(attributes, 'biotype'),
+                    classCode: gtfAttribute(attributes, 'class_code'),
+                    refGeneId: firstAttribute(attributes, ['ref_gene_id', 'gene_name']),
+                    refTranscriptId: gtfAttribute(attributes, 'cmp_ref')
+                };
+            }
+            return;
+        }
         
         const start = parseInt(parts[3]);
         const end = parseInt(parts[4]);
-        const attributes = parts[8];
+        const length = end - start + 1;
+        const geneId = gtfAttribute(attributes, 'gene_id');
+        const biotype = firstAttribute(attributes, TRANSCRIPT_BIOTYPE_KEYS);
+        const geneBiotype = firstAttribute(attributes, GENE_BIOTYPE_KEYS);
+        if (geneId && geneBiotype) geneBiotypes[geneId] = geneBiotype;
         
-        const match = attributes.match(/transcript_id\s+"([^"]+)";/);
-        if (match) {
-            const transcriptId = match[1];
-            const length = end - start + 1;
-            
-            if (!transcriptLengths[transcriptId]) {
-                transcriptLengths[transcriptId] = 0;
-            }
-            transcriptLengths[transcriptId] += length;
-        }
-    }
+        exonTranscriptIds(attributes).forEach(transcriptId => {
+            const tx = transcripts[transcriptId] || (transcripts[transcriptId] = { length: 0, exons: 0, chrom: parts[0], strand: parts[6], start, end, exonRanges: [] });
+            tx.length += length;
+            tx.exons += 1;
+            tx.exonRanges.push([start, end]);
+            tx.start = Math.min(tx.start, start);
+            tx.end = Math.max(tx.end, end);
+            if (geneId) tx.geneId = geneId;
+            if (biotype) tx.biotype = biotype;
+        });
+    }, options);
+
+    return { transcripts, info, geneBiotypes };
+};
 
-    const lengths = Object.values(transcriptLengths);
-    const count = lengths.length;
+const summarizeTranscripts = (name: string, { transcripts, info, geneBiotypes }: AnnotationScan): TranscriptStat => {
+    const ids = Object.keys(transcripts);
+    const count = ids.length;
     
     if (count === 0) {
         // Fallback if parsing failed (e.g. not GTF format or regex mismatch)
         return {
-            name: file.name,
+            name,
             count: 0,
             totalLen: 0,
             meanLen: 0,
-            maxLen: 0
+            maxLen: 0,
+            n50: 0,
+            geneCount: 0,
+            transcriptsPerGene: 0,
+            exonsPerTranscript: 0,
+            monoExonic: 0,
+            multiExonic: 0,
+            lengthBins: lengthBinLabels().map(label => ({ label, count: 0 })),
+            transcriptBiotypes: {},
+            geneBiotypes: {}
         };
     }
 
+    // Transcripts without a gene link count as their own locus
+    const geneOf = (id: string) => transcripts[id].geneId || info[id]?.geneId || id;
+    const lengths = ids.map(id => transcripts[id].length);
+    const exonCounts = ids.map(id => transcripts[id].exons);
+    const genes = Array.from(new Set(ids.map(geneOf)));
+
     const totalLen = lengths.reduce((a, b) => a + b, 0);
-    const maxLen = Math.max(...lengths);
+    const maxLen = lengths.reduce((a, b) => Math.max(a, b), 0);
     const meanLen = Math.round(totalLen / count);
+    const monoExonic = exonCounts.filter(n => n === 1).length;
+
+    const binCounts = new Array(LENGTH_BINS.length + 1).fill(0);
+    lengths.forEach(len => {
+        const bin = LENGTH_BINS.findIndex(upper => len < upper);
+        binCounts[bin === -1 ? LENGTH_BINS.length : bin]++;
+    });
 
     return {
-        name: file.name,
+        name,
         count,
         totalLen,
         meanLen,
-        maxLen
+        maxLen,
+        n50: computeN50(lengths, totalLen),
+        geneCount: genes.length,
+        transcriptsPerGene: parseFloat((count / genes.length).toFixed(2)),
+        exonsPerTranscript: parseFloat((exonCounts.reduce((a, b) => a + b, 0) / count).toFixed(2)),
+        monoExonic,
+        multiExonic: count - monoExonic,
+        lengthBins: lengthBinLabels().map((label, idx) => ({ label, count: binCounts[idx] })),
+        transcriptBiotypes: countBy(ids.map(id => transcripts[id].biotype || info[id]?.biotype || geneBiotypes[geneOf(id)])),
+        geneBiotypes: countBy(genes.map(gene => geneBiotypes[gene]))
     };
 };
 
-// Parse Detailed Comparison File (Volcano/MA Data)
-export const parseComparisonDGE = async (file: File): Promise<{ sigCount: number, stats: ComparisonStats, maPoints: any[], volcanoPoints: any[] }> => {
-  const buffer = await readFileAsArrayBuffer(file);
-  const workbook = XLSX.read(buffer, { type: 'array' });
-  const firstSheetName = workbook.SheetNames[0];
-  if (!firstSheetName) return { sigCount: 0, stats: { total:0, up:0, down:0, sigUp:0, sigDown:0, sigTotal:0 }, maPoints: [], volcanoPoints: [] };
-  
-  const firstSheet = workbook.Sheets[firstSheetName];
-  
-  // Use smart parser to find headers like logFC, FDR, PValue
-  const jsonData = smartSheetToJson(firstSheet, ['logfc', 'fdr', 'pvalue', 'padj', 'foldchange']);
+// Exon structure of every transcript, kept for the report's locus viewer
+const transcriptModels = ({ transcripts, info }: AnnotationScan): TranscriptModel[] =>
+    Object.entries(transcripts).map(([id, tx]) => ({
+        id,
+        geneId: tx.geneId || info[id]?.geneId,
+        refGeneId: info[id]?.refGeneId,
+        classCode: info[id]?.classCode,
+        chrom: tx.chrom,
+        strand: tx.strand,
+        exons: [...tx.exonRanges].sort((a, b) => a[0] - b[0])
+    }));
 
-  if (jsonData.length === 0) return { sigCount: 0, stats: { total:0, up:0, down:0, sigUp:0, sigDown:0, sigTotal:0 }, maPoints: [], volcanoPoints: [] };
+// Parse GTF / GFF3 File: exon lengths summed per transcript, plus gene, exon and biotype summaries
+export const parseGTF = async (file: File, options: StreamOptions = {}): Promise<{ stats: TranscriptStat; models: TranscriptModel[] }> => {
+    const scan = await scanAnnotation(file, options);
+    return { stats: summarizeTranscripts(innerFileName(file.name), scan), models: transcriptModels(scan) };
+};
 
-  // Smart Column Detection
-  const row0 = jsonData[0];
-  const keys = Object.keys(row0);
-  
-  const logFCKey = keys.find(k => /log2?fc|foldchange|log2_fold_change/i.test(k)) || keys[1];
-  const fdrKey = keys.find(k => /fdr|padj|adj\.?p|q_?value/i.test(k)) || keys[keys.length - 1];
-  const cpmKey = keys.find(k => /logcpm|log2?cpm|cpm/i.test(k)); 
-  // Detect ID/Name column
-  const idKey = keys.find(k => /gene|transcript|id|symbol|name|target_id/i.test(k)) || keys[0];
+export const CLASS_CODE_LABELS: Record<string, string> = {
+    '=': 'Complete intron chain match',
+    c: 'Contained in reference',
+    k: 'Contains reference',
+    m: 'Retained intron, full chain match',
+    n: 'Retained intron, partial chain match',
+    j: 'Novel isoform (shared junction)',
+    e: 'Single exon spanning an intron',
+    o: 'Other same-strand exonic overlap',
+    s: 'Intron match on opposite strand',
+    x: 'Antisense exonic overlap',
+    i: 'Within a reference intron',
+    y: 'Contains a reference in its intron',
+    p: 'Possible polymerase run-on',
+    r: 'Repeat',
+    u: 'Intergenic / unknown'
+};
+
+// Novel transcripts from a gffcompare-annotated GTF: everything except exact reference matches ('=').
+// Files without class_code attributes are taken as already filtered to novel transcripts.
+export const parseNovelIsoforms = async (file: File, options: StreamOptions = {}): Promise<{ stats: TranscriptStat; novel: NovelIsoformSummary; models: TranscriptModel[] }> => {
+    const scan = await scanAnnotation(file, options);
+    const transcripts: NovelTranscript[] = Object.entries(scan.transcripts)
+        .map(([id, tx]) => {
+            const txInfo = scan.info[id] || {};
+            return {
+                id,
+                geneId: tx.geneId || txInfo.geneId,
+                refGeneId: txInfo.refGeneId,
+                refTranscriptId: txInfo.refTranscriptId,
+                classCode: txInfo.classCode,
+                locus: `${tx.chrom}:${tx.start}-${tx.end}`,
+                strand: tx.strand,
+                exons: tx.exons,
+                length: tx.length
+            };
+        })
+        .filter(tx => tx.classCode !== '=');
+
+    return {
+        stats: summarizeTranscripts(innerFileName(file.name), scan),
+        novel: {
+            name: innerFileName(file.name),
+            classCodes: countBy(transcripts.map(tx => tx.classCode)),
+            transcripts
+        },
+        models: transcriptModels(scan)
+    };
+};
+
+// Reference and assembled transcripts shown next to each novel transcript
+const MAX_LOCUS_TRANSCRIPTS = 30;
+
+// Group exon models into loci keyed by the novel transcript's reference gene (or assembled gene when
+// intergenic). A locus holds every uploaded transcript sharing that gene ID or reference gene ID.
+const locusKeyOf = (tx: { geneId?: string; refGeneId?: string }): string | undefined => tx.refGeneId || tx.geneId;
+
+export const buildLocusModels = (novel: NovelIsoformSummary, models: TranscriptModel[]): Record<string, LocusModel> => {
+    const byGene: Record<string, TranscriptModel[]> = {};
+    const byId: Record<string, TranscriptModel> = {};
+    models.forEach(m => {
+        if (!byId[m.id]) byId[m.id] = m;
+        new Set([m.geneId, m.refGeneId]).forEach(gene => {
+            if (gene) (byGene[gene] = byGene[gene] || []).push(m);
+        });
+    });
+
+    const novelIds = new Set(novel.transcripts.map(t => t.id));
+    const loci: Record<string, LocusModel> = {};
+    novel.transcripts.forEach(t => {
+        const key = locusKeyOf(t);
+        if (!key || loci[key]) return;
+
+        const members: Record<string, TranscriptModel> = {};
+        [t.geneId, t.refGeneId].forEach(gene => {
+            if (gene) (byGene[gene] || []).forEach(m => { members[m.id] = members[m.id] || m; });
+        });
+        if (byId[t.id]) members[t.id] = byId[t.id];
+
+        // Novel transcripts first, then references, capped to keep REPORT_DATA small
+        const transcripts = Object.values(members)
+            .filter(m => m.exons.length > 0)
+            .sort((a, b) => Number(novelIds.has(b.id)) - Number(novelIds.has(a.id)))
+            .slice(0, MAX_LOCUS_TRANSCRIPTS)
+            .map(({ id, classCode, strand, exons }) => ({ id, classCode, strand, exons, novel: novelIds.has(id) }));
+        if (transcripts.length === 0) return;
+
+        loci[key] = {
+            chrom: byId[t.id]?.chrom || Object.values(members)[0].chrom,
+            start: Math.min(...transcripts.map(m => m.exons[0][0])),
+            end: Math.max(...transcripts.map(m => m.exons.reduce((max, e) => Math.max(max, e[1]), 0))),
+            transcripts
+        };
+    });
+    return loci;
+};
+
+// Default significance call: FDR < 0.05 & |logFC| > 1
+export const DEFAULT_THRESHOLDS: SignificanceThresholds = { pAdj: 0.05, pValue: null, logFC: 1 };
+
+// Human readable threshold summary, e.g. "FDR < 0.05 · |log2FC| > 1".
+// Without adjusted p-values the FDR cutoff is applied to whichever statistic drives the y-axis.
+export const formatThresholds = (t: SignificanceThresholds, yStatistic: DGEColumnInfo['yStatistic'] = 'pAdj'): string => {
+  const parts: string[] = [];
+  if (t.pAdj !== null) {
+    if (yStatistic === 'prob') parts.push(`NOISeq prob > ${parseFloat((1 - t.pAdj).toFixed(4))}`);
+    else parts.push(`${yStatistic === 'pValue' ? 'P' : 'FDR'} < ${t.pAdj}`);
+  }
+  if (t.pValue !== null) parts.push(`P < ${t.pValue}`);
+  parts.push(`|log2FC| > ${t.logFC}`);
+  return parts.join(' · ');
+};
+
+export const Y_AXIS_LABELS: Record<DGEColumnInfo['yStatistic'], string> = {
+  pAdj: '-Log10 FDR',
+  pValue: '-Log10 P-value',
+  prob: '-Log10 (1 - NOISeq prob)'
+};
+
+// Report note explaining which statistic drives the y-axis and the significance call
+export const describeDGEColumns = (info: DGEColumnInfo, t: SignificanceThresholds): string => {
+  const notes = [`Y-axis: ${Y_AXIS_LABELS[info.yStatistic]}`];
+  if (info.yStatistic === 'pValue') notes[0] += ' (no adjusted p-values in table)';
+  notes.push(`Significance: ${formatThresholds(t, info.yStatistic)}`);
+  if (info.linearFoldChange) notes.push('Fold changes converted from linear to log2');
+  return notes.join('. ') + '.';
+};
+
+export const isSignificant = (rec: DGERecord, t: SignificanceThresholds): boolean => {
+  if (Math.abs(rec.logFC) <= t.logFC) return false;
+  // Raw p-value-only tables fall back to the p-value for the FDR cutoff
+  const fdr = rec.pAdj ?? rec.pValue;
+  if (t.pAdj !== null && (fdr === null || !(fdr < t.pAdj))) return false;
+  if (t.pValue !== null && (rec.pValue === null || !(rec.pValue < t.pValue))) return false;
+  return true;
+};
+
+export interface DGESummary {
+  sigCount: number;
+  stats: ComparisonStats;
+  maPoints: DGEPoint[];
+  volcanoPoints: DGEPoint[];
+}
+
+// Tooltip fields of a plot point; absent values are left out to keep the report small
+const pointDetails = (rec: DGERecord): Partial<DGEPoint> => {
+  const details: Partial<DGEPoint> = {};
+  if (rec.pValue !== null) details.pValue = parseFloat(rec.pValue.toPrecision(3));
+  if (rec.pAdj !== null) details.pAdj = parseFloat(rec.pAdj.toPrecision(3));
+  if (rec.baseExpr !== null) details.baseExpr = parseFloat(rec.baseExpr.toFixed(3));
+  if (rec.symbol) details.symbol = rec.symbol;
+  if (rec.biotype) details.biotype = rec.biotype;
+  return details;
+};
 
+// Compute stats and (downsampled) plot points for a set of DGE records
+export const summarizeDGE = (records: DGERecord[], thresholds: SignificanceThresholds): DGESummary => {
   const stats = { total: 0, up: 0, down: 0, sigUp: 0, sigDown: 0, sigTotal: 0 };
   const sigPoints: any[] = [];
   const nonSigPoints: any[] = [];
   const MAX_POINTS = 5000; // Increased limit
 
-  jsonData.forEach((row) => {
-    const fc = parseFloat(row[logFCKey]);
-    const fdr = parseFloat(row[fdrKey]);
-    const cpm = cpmKey ? parseFloat(row[cpmKey]) : 0;
-    const label = String(row[idKey] || 'Unknown');
-    
-    if (isNaN(fc) || isNaN(fdr)) return;
+  records.forEach((rec) => {
+    const fc = rec.logFC;
+    const fdr = (rec.pAdj ?? rec.pValue) as number;
 
     stats.total++;
     if (fc > 0) stats.up++;
     else if (fc < 0) stats.down++;
 
-    // Significance Threshold: FDR < 0.05 & |logFC| > 1
-    const isSig = fdr < 0.05 && Math.abs(fc) > 1; 
+    const isSig = isSignificant(rec, thresholds);
     
     if (isSig) {
         stats.sigTotal++;
@@ -193,9 +1271,10 @@ export const parseComparisonDGE = async (file: File): Promise<{ sigCount: number
     const point = {
       x: parseFloat(fc.toFixed(3)), // Volcano X (logFC)
       y: parseFloat(negLogFdr.toFixed(3)), // Volcano Y (-log10 FDR)
-      maX: cpmKey ? parseFloat(cpm.toFixed(3)) : parseFloat(fc.toFixed(3)), 
+      maX: rec.baseExpr !== null ? parseFloat(rec.baseExpr.toFixed(3)) : parseFloat(fc.toFixed(3)), 
       sig: isSig,
-      label: label
+      label: rec.label,
+      details: pointDetails(rec)
     };
 
     if (isSig) {
@@ -229,8 +1308,8 @@ export const parseComparisonDGE = async (file: File): Promise<{ sigCount: number
   }
 
   // Format for Chart.js
-  const volcanoData = finalPoints.map(p => ({ x: p.x, y: p.y, sig: p.sig, label: p.label }));
-  const maData = finalPoints.map(p => ({ x: p.maX, y: p.x, sig: p.sig, label: p.label })); 
+  const volcanoData = finalPoints.map(p => ({ x: p.x, y: p.y, sig: p.sig, label: p.label, ...p.details }));
+  const maData = finalPoints.map(p => ({ x: p.maX, y: p.x, sig: p.sig, label: p.label, ...p.details })); 
 
   return {
     sigCount: stats.sigTotal,
@@ -240,69 +1319,110 @@ export const parseComparisonDGE = async (file: File): Promise<{ sigCount: number
   };
 };
 
-// Parse Enrichment Files (GO/KEGG)
-export const parseEnrichment = async (file: File): Promise<EnrichmentTerm[]> => {
-    const buffer = await readFileAsArrayBuffer(file);
-    const workbook = XLSX.read(buffer, { type: 'array' });
-    const firstSheetName = workbook.SheetNames[0];
-    if (!firstSheetName) return [];
-    
-    const firstSheet = workbook.Sheets[firstSheetName];
-    // Use smart parser looking for keywords. Include 'significant' for TopGO and 'p-value' variants.
-    const jsonData = smartSheetToJson(firstSheet, [
-        'term', 'description', 'pathway', 'id', 
-        'count', 'significant', 'n', 
-        'pvalue', 'p-value', 'p.adjust', 'fdr', 'qvalue', 'q-value'
-    ]);
+// Parse Detailed Comparison File (Volcano/MA Data)
+export const parseComparisonDGE = async (file: File, thresholds: SignificanceThresholds = DEFAULT_THRESHOLDS, layout?: TableLayout, options: StreamOptions = {}): Promise<DGESummary & { records: DGERecord[], info: DGEColumnInfo }> => {
+  let info: DGEColumnInfo = { yStatistic: 'pAdj', linearFoldChange: false, baseExprLabel: 'Log CPM' };
+  let linearFoldChange = false;
+  const records: DGERecord[] = [];
 
-    if (jsonData.length === 0) return [];
+  // Use smart parser to find headers like logFC, FDR, PValue
+  await streamTableObjects(file, DGE_KEYWORDS, layout?.headerRow, keys => {
+    const { mapping } = layout || detectColumnMapping(keys, 'dge');
+    const logFCKey = mapping.logFC as string;
+    const fdrKey = mapping.pAdj;
+    const pValueKey = mapping.pValue;
+    const cpmKey = mapping.baseExpr;
+    const idKey = mapping.id as string;
+    const symbolKey = mapping.symbol;
+    const biotypeKey = mapping.biotype;
 
-    const keys = Object.keys(jsonData[0]);
-    
-    // 1. Detect Term Column (Description preferred over ID)
-    let termKey = keys.find(k => /description/i.test(k));
-    if (!termKey) termKey = keys.find(k => /term/i.test(k));
-    if (!termKey) termKey = keys.find(k => /pathway/i.test(k));
-    if (!termKey) termKey = keys.find(k => /id/i.test(k)); // Fallback to ID
-    if (!termKey) termKey = keys[0];
+    // NOISeq probabilities are turned into an FDR-like value (1 - prob)
+    const isProb = !!fdrKey && /^prob$/i.test(fdrKey);
+    // Tool-specific scale conversions apply only where the mapping uses the tool's own columns
+    const profile = detectDGETool(keys);
+    const usesProfileColumn = (role: 'logFC' | 'baseExpr') =>
+      !!profile && !!mapping[role] && mapping[role]!.toLowerCase() === profile.columns[role].toLowerCase();
+    const fcTransform = usesProfileColumn('logFC') ? profile!.transform?.logFC : undefined;
+    const exprTransform = usesProfileColumn('baseExpr') ? profile!.transform?.baseExpr : undefined;
+    // A fold change column without "log" in its name and no negative values is linear (Cuffdiff, vendor exports);
+    // it is converted once every row has been seen
+    linearFoldChange = !profile && !!logFCKey && !/log|^m$/i.test(logFCKey);
+    info = {
+      yStatistic: isProb ? 'prob' : fdrKey ? 'pAdj' : 'pValue',
+      linearFoldChange,
+      tool: profile?.tool,
+      baseExprLabel: usesProfileColumn('baseExpr') ? profile!.baseExprLabel : cpmKey ? 'Log CPM' : 'Log2 Fold Change'
+    };
 
-    // 2. Detect Count Column
-    let countKey = keys.find(k => /^count/i.test(k)); 
-    if (!countKey) countKey = keys.find(k => /significant/i.test(k));
-    if (!countKey) countKey = keys.find(k => /^n$/i.test(k));
-    if (!countKey) countKey = keys.find(k => /gene_?count/i.test(k));
-    
-    // 3. Detect Category Column (for GO)
-    // Looking for "ontology", "category", "namespace"
-    const catKey = keys.find(k => /ontology|category|namespace|type/i.test(k));
+    return row => {
+      const rawFc = parseFloat(row[logFCKey]);
+      if (rawFc < 0) linearFoldChange = false;
+      const fc = fcTransform ? fcTransform(rawFc) : rawFc;
+      const rawFdr = fdrKey ? parseFloat(row[fdrKey]) : NaN;
+      const fdr = isProb ? 1 - rawFdr : rawFdr;
+      const pValue = pValueKey ? parseFloat(row[pValueKey]) : NaN;
+      const rawCpm = cpmKey ? parseFloat(row[cpmKey]) : NaN;
+      const cpm = exprTransform ? exprTransform(rawCpm) : rawCpm;
 
-    // 4. Detect P-Value / FDR
-    const pKey = keys.find(k => /p[-_.]?val|p[-_.]?adj|fdr|q[-_.]?val/i.test(k));
+      if (!isFinite(fc) || (fdrKey ? isNaN(fdr) : isNaN(pValue))) return;
 
-    return jsonData.slice(0, 50).map(row => {
-        const term = row[termKey] || 'Unknown';
-        
-        // Clean Count
-        let count = 0;
-        if (countKey && row[countKey] !== undefined) {
-             const parsed = parseInt(String(row[countKey]));
-             if(!isNaN(parsed)) count = parsed;
-        }
+      records.push({
+        label: String(row[idKey] || 'Unknown'),
+        logFC: fc,
+        pAdj: fdrKey ? fdr : null,
+        pValue: isNaN(pValue) ? null : pValue,
+        baseExpr: cpmKey ? (isNaN(cpm) ? 0 : cpm) : null,
+        symbol: symbolKey && row[symbolKey] !== undefined ? String(row[symbolKey]) : undefined,
+        biotype: biotypeKey && row[biotypeKey] !== undefined ? String(row[biotypeKey]) : undefined
+      });
+    };
+  }, options);
 
-        // Clean P-Value
-        let pVal = 0;
-        if (pKey && row[pKey] !== undefined) {
-            const parsed = parseFloat(String(row[pKey]));
-            if(!isNaN(parsed)) pVal = parsed;
-        }
-        
-        const category = catKey ? String(row[catKey]) : undefined;
+  // Linear fold changes become log2; a zero has no log2 and is dropped
+  const finalRecords = linearFoldChange ? records.filter(rec => rec.logFC > 0).map(rec => ({ ...rec, logFC: Math.log2(rec.logFC) })) : records;
+  return { records: finalRecords, info: { ...info, linearFoldChange }, ...summarizeDGE(finalRecords, thresholds) };
+};
 
-        return {
-            term: String(term),
-            count: count,
-            pAdjust: pVal,
-            category
+// Parse Enrichment Files (GO/KEGG)
+export const parseEnrichment = async (file: File, layout?: TableLayout, options: StreamOptions = {}): Promise<EnrichmentTerm[]> => {
+    const terms: EnrichmentTerm[] = [];
+
+    // Use smart parser looking for keywords.
+    await streamTableObjects(file, ENRICHMENT_KEYWORDS, layout?.headerRow, keys => {
+        const { mapping } = layout || detectColumnMapping(keys, 'enrichment');
+        const termKey = mapping.term as string;
+        const countKey = mapping.count;
+        const catKey = mapping.category;
+        const pKey = mapping.pAdj;
+
+        return row => {
+            if (terms.length >= 50) return;
+            const term = row[termKey] || 'Unknown';
+
+            // Clean Count
+            let count = 0;
+            if (countKey && row[countKey] !== undefined) {
+                 const parsed = parseInt(String(row[countKey]));
+                 if(!isNaN(parsed)) count = parsed;
+            }
+
+            // Clean P-Value
+            let pVal = 0;
+            if (pKey && row[pKey] !== undefined) {
+                const parsed = parseFloat(String(row[pKey]));
+                if(!isNaN(parsed)) pVal = parsed;
+            }
+
+            const category = catKey ? String(row[catKey]) : undefined;
+
+            terms.push({
+                term: String(term),
+                count: count,
+                pAdjust: pVal,
+                category
+            });
         };
-    });
+    }, options);
+
+    return terms;
 };
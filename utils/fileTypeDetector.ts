@@ -0,0 +1,302 @@
+import * as XLSX from 'xlsx';
+import { FileTypeDetection, FileUploadStatus } from '../types';
+import { detectDGETool, innerFileName, parseDelimited, readFileAsArrayBuffer, readHead, sniffDelimited } from './excelParser';
+
+export type DetectedType = FileUploadStatus['type'] | 'unknown';
+
+// Words next to an `X_vs_Y` contrast that belong to the file name rather than to the group names
+const NON_GROUP_TOKENS = new Set([
+  'dge', 'deg', 'degs', 'de', 'diff', 'results', 'result', 'res', 'table', 'output', 'final', 'filtered', 'annotated',
+  'all', 'sig', 'significant', 'up', 'down', 'genes', 'go', 'kegg', 'enrichment', 'enrich', 'pathway', 'pathways',
+  'bp', 'cc', 'mf', 'deseq2', 'edger', 'limma', 'sleuth', 'noiseq', 'comparison', 'contrast'
+]);
+const VS_SEPARATOR = /(?:^|[_.\s-])vs\.?(?:[_.\s-]|$)/i;
+
+// Helper: Detect comparison ID from a filename or DGE summary label.
+// "KO-24h_vs_WT-24h_DGE.xlsx" -> "KO-24h_vs_WT-24h"; "Comparison1" / "C2_DGE" -> "C1" / "C2"
+export const detectComparisonId = (filename: string): string | null => {
+  const base = filename.replace(/\.(xlsx|xls|csv|tsv|txt)$/i, '');
+  const sides = base.split(VS_SEPARATOR);
+  if (sides.length === 2) {
+    const isGroup = (token: string) => !!token && !NON_GROUP_TOKENS.has(token.toLowerCase());
+    const after: string[] = [];
+    for (const token of sides[1].split(/[_\s]+/)) {
+      if (!isGroup(token)) break;
+      after.push(token);
+    }
+    // Take as many tokens before "vs" as the denominator has, so "C1_KO_24h_vs_WT_24h" keeps "KO_24h"
+    const beforeTokens = sides[0].split(/[_\s]+/);
+    const before: string[] = [];
+    for (let i = beforeTokens.length - 1; i >= 0 && before.length < Math.max(after.length, 1); i--) {
+      if (!isGroup(beforeTokens[i])) break;
+      before.unshift(beforeTokens[i]);
+    }
+    if (before.length > 0 && after.length > 0) return `${before.join('_')}_vs_${after.join('_')}`;
+  }
+
+  // Matches: "Comparison 1", "Comp-1", "C1", "C_1", "Contrast 1", "Group 1", "G1"
+  const match = filename.match(/(?:Comparison|Comp|C|Contrast|Group|G)\s*[-_]?\s*(\d+)/i);
+  return match ? `C${match[1]}` : null;
+};
+
+// Default display name and description for a new comparison
+export const describeComparison = (id: string): { name: string; description: string } => {
+  const sides = id.split('_vs_');
+  if (sides.length === 2) {
+    const label = `${sides[0]} vs ${sides[1]}`;
+    return { name: label, description: label };
+  }
+  const num = id.match(/^C(\d+)$/);
+  return { name: num ? `Comparison ${num[1]}` : id, description: 'Test vs Control' };
+};
+
+// Filename keyword heuristics: the fallback when content is inconclusive, and the tiebreaker otherwise
+export const detectTypeFromName = (filename: string): DetectedType => {
+  const lower = filename.toLowerCase();
+  
+  // 0. Non-Parseable / Deliverables Only (Binaries, Raw Data, Images, PDFs)
+  if (
+      lower.endsWith('.fastq') || lower.endsWith('.fq') || lower.endsWith('.fastq.gz') || lower.endsWith('.fq.gz') || // Raw Data
+      lower.endsWith('.bam') || lower.endsWith('.sam') || lower.endsWith('.bai') || // Alignment
+      lower.endsWith('.fa') || lower.endsWith('.fasta') || lower.endsWith('.fna') || // Reference
+      lower.endsWith('.pdf') || lower.endsWith('.png') || lower.endsWith('.jpg') || lower.endsWith('.jpeg') || lower.endsWith('.svg') // Images/Docs
+  ) {
+      return 'deliverable_only';
+  }
+
+  // 1. Template
+  if (lower.endsWith('.html') || lower.endsWith('.htm')) return 'template';
+
+  // 1b. FastQC results
+  if (/_fastqc\.zip$|fastqc_data\.txt$/.test(lower)) return 'fastqc';
+
+  // 2. GTF / GFF3 Files
+  if (lower.endsWith('.gtf') || lower.endsWith('.gff3') || lower.endsWith('.gff')) {
+      // Novel isoforms specific
+      if (lower.includes('novel') || lower.includes('isoform')) return 'gtf_novel';
+      // General merged transcripts or just default gtf
+      return 'gtf_merged';
+  }
+
+  // 2b. Sample sheet / experimental design
+  if (/sample[-_ ]?(sheet|info|table)|design|coldata|metadata/.test(lower) && /\.(txt|csv|tsv|xlsx|xls)$/.test(lower)) return 'sample_sheet';
+
+  // 3. Mapping Stats (Text/Excel based)
+  // Must contain stats/summary keywords AND mapping/align keywords
+  // Exclude if it looks like a binary file (handled above, but just in case)
+  if (
+      (lower.includes('mapping') || lower.includes('align') || lower.includes('star') || lower.includes('bowtie') || lower.includes('hisat')) && 
+      (lower.includes('stat') || lower.includes('summary') || lower.includes('report') || lower.includes('log') || lower.endsWith('.txt') || lower.endsWith('.csv') || lower.endsWith('.xlsx'))
+  ) return 'mapping';
+
+  // 4. Global Stats (Data/QC)
+  if (
+      lower.includes('multiqc') || lower.startsWith('mqc_') ||
+      ((lower.includes('stat') || lower.includes('report') || lower.includes('summary')) && 
+       (lower.includes('data') || lower.includes('raw') || lower.includes('seq') || lower.includes('trim') || lower.includes('qc') || lower.includes('qual')))
+  ) return 'stats';
+
+  // 5. DGE Summary (Overview table of all comparisons)
+  if ((lower.includes('summary') || lower.includes('overview') || lower.includes('all')) && (lower.includes('dge') || lower.includes('diff') || lower.includes('deg'))) return 'dge_summary';
+  
+  // 6. Comparison Specific Files
+  // GO / Enrichment
+  if (
+      (lower.includes('go') && (lower.includes('enrich') || lower.includes('term') || lower.includes('result') || lower.includes('_go') || lower.includes('go_'))) || 
+      lower.includes('gene_ontology')
+  ) return 'comparison_go';
+
+  // Comparison: KEGG
+  if (lower.includes('kegg') || lower.includes('pathway')) return 'comparison_kegg';
+
+  // Comparison: DGE (Detailed results for one comparison)
+  const dgeKeywords = ['dge', 'diff', 'deg', 'result', 'comp', 'contrast', 'vs', 'change', 'fc', 'volcano', 'ma_plot', 'table', 'output'];
+  if (dgeKeywords.some(k => lower.includes(k)) && !lower.includes('summary') && !lower.includes('overview')) {
+      return 'comparison_dge';
+  }
+  
+  // Fallback: If it has a comparison ID (e.g. "C1.xlsx") and is an excel/csv/txt file, assume DGE
+  if (detectComparisonId(filename) && (lower.endsWith('xlsx') || lower.endsWith('csv') || lower.endsWith('txt') || lower.endsWith('xls'))) {
+      return 'comparison_dge';
+  }
+  
+  // Fallback for generic text/excel files that might be stats or something else, default to deliverable only to avoid errors
+  if (lower.endsWith('.txt') || lower.endsWith('.csv') || lower.endsWith('.xlsx') || lower.endsWith('.xls') || lower.endsWith('.tsv')) {
+      return 'deliverable_only';
+  }
+
+  return 'unknown';
+};
+
+// Formats identified by extension alone; sniffing their content adds nothing
+const BINARY_TYPES: DetectedType[] = ['deliverable_only'];
+const SPREADSHEET = /\.(xlsx|xls)$/i;
+
+interface Evidence {
+  type: DetectedType;
+  confidence: number;
+  reason: string;
+}
+
+// --- Plain-text signatures (first lines of the file) ---
+
+const sniffText = (text: string, filename: string): Evidence | null => {
+  const lines = text.split(/\r?\n/).slice(0, 200);
+  const head = lines.join('\n');
+
+  if (/^\s*<(!doctype html|html)/i.test(head)) {
+    return { type: 'template', confidence: 0.95, reason: 'HTML document' };
+  }
+
+  // GTF / GFF3: 9 tab-separated columns with numeric start/end and a strand
+  const features = lines.filter(l => l && !l.startsWith('#')).map(l => l.split('\t'));
+  const gtfRows = features.filter(f => f.length >= 9 && /^\d+$/.test(f[3]) && /^\d+$/.test(f[4]) && /^[+\-.?]$/.test(f[6]));
+  if (/^##gff-version/m.test(head) || (gtfRows.length > 0 && gtfRows.length >= features.length * 0.9)) {
+    const classCodes = gtfRows.map(f => (f[8].match(/class_code\s+"([^"]+)"/) || [])[1]).filter(Boolean);
+    const novelByName = /novel|isoform/i.test(filename);
+    if (classCodes.length > 0 && !classCodes.includes('=')) {
+      return { type: 'gtf_novel', confidence: 0.9, reason: 'GTF with gffcompare class codes, no reference matches' };
+    }
+    return {
+      type: novelByName ? 'gtf_novel' : 'gtf_merged',
+      confidence: 0.85,
+      reason: `${/^##gff-version/m.test(head) ? 'GFF3' : 'GTF'} feature columns${novelByName ? '; "novel" in filename' : ''}`
+    };
+  }
+
+  if (/Uniquely mapped reads %|Number of input reads \|/.test(head)) {
+    return { type: 'mapping', confidence: 0.95, reason: 'STAR Log.final.out keys' };
+  }
+  if (/overall alignment rate/.test(head)) {
+    return { type: 'mapping', confidence: 0.9, reason: 'HISAT2 / Bowtie2 alignment summary' };
+  }
+  if (/"report_general_stats_data"|"report_plot_data"|mqc-generalstats|FastQC_mqc/i.test(head)) {
+    return { type: 'stats', confidence: 0.9, reason: 'MultiQC general statistics' };
+  }
+  if (/^##FastQC/m.test(head)) {
+    return { type: 'fastqc', confidence: 0.95, reason: 'FastQC report data (##FastQC header)' };
+  }
+  return null;
+};
+
+// --- Table signatures (header row and a few data rows) ---
+
+const LOGFC = /^(log2?[-_. ]?(fc|fold[-_. ]?change|ratio)|fold[-_. ]?change|log2_fold_change|m)$/i;
+const STAT = /^(p[-_. ]?adj|padj|fdr|adj\.p\.val|q[-_. ]?val(ue)?|p[-_. ]?val(ue)?|pvalue|prob|p\.value)$/i;
+const TERM = /term|description|pathway|^go[-_. ]?id$|^id$/i;
+// Word-initial so e.g. "group" does not count as an up column
+const UP = /(^|[^a-z])up/i;
+const DOWN = /(^|[^a-z])down/i;
+const ENRICH_STAT = /p[-_. ]?val|p\.adjust|fdr|q[-_. ]?val|count|gene[-_. ]?ratio|rich|significant/i;
+
+// Header = the row among the first 20 with the most recognised column names
+const findSniffHeader = (rows: any[][]): number => {
+  let best = 0, bestHits = 0;
+  rows.slice(0, 20).forEach((row, idx) => {
+    const hits = (row || []).filter(c => {
+      const h = String(c ?? '').trim();
+      return LOGFC.test(h) || STAT.test(h) || TERM.test(h) || UP.test(h) || DOWN.test(h) || /reads|mapped|q30|gc|comparison|sample|condition/i.test(h);
+    }).length;
+    if (hits > bestHits) { best = idx; bestHits = hits; }
+  });
+  return best;
+};
+
+const sniffTable = (rows: any[][]): Evidence | null => {
+  if (rows.length === 0) return null;
+  const headerRow = findSniffHeader(rows);
+  const headers = (rows[headerRow] || []).map(h => String(h ?? '').trim()).filter(Boolean);
+  const lower = headers.map(h => h.toLowerCase());
+  const values = rows.slice(headerRow + 1, headerRow + 21).flat().map(v => String(v ?? '')).join(' ');
+  const has = (re: RegExp) => headers.filter(h => re.test(h));
+
+  // DGE result table: a fold change plus a statistic column
+  const tool = detectDGETool(headers);
+  if (tool) return { type: 'comparison_dge', confidence: 0.95, reason: `${tool.tool} result columns` };
+  const fc = has(LOGFC), stat = has(STAT);
+  if (fc.length > 0 && stat.length > 0) {
+    return { type: 'comparison_dge', confidence: 0.85, reason: `DGE columns (${fc[0]}, ${stat[0]})` };
+  }
+
+  // DGE summary: one row per comparison with up / down counts
+  if (lower.some(h => /comparison|contrast/.test(h)) && lower.some(h => UP.test(h)) && lower.some(h => DOWN.test(h))) {
+    return { type: 'dge_summary', confidence: 0.85, reason: 'Comparison rows with up/down counts' };
+  }
+
+  // Enrichment: term column with a statistic; GO vs KEGG by identifiers, then column names
+  const term = has(TERM);
+  if (term.length > 0 && has(ENRICH_STAT).length > 0) {
+    if (/\bGO:\d{7}\b/.test(values)) return { type: 'comparison_go', confidence: 0.9, reason: 'Enrichment table with GO:nnnnnnn IDs' };
+    if (/\b(map|ko|[a-z]{3,4})\d{5}\b/.test(values)) return { type: 'comparison_kegg', confidence: 0.9, reason: 'Enrichment table with KEGG pathway IDs' };
+    if (lower.some(h => /ontology|namespace/.test(h))) return { type: 'comparison_go', confidence: 0.75, reason: 'Enrichment table with ontology column' };
+    if (lower.some(h => /kegg|pathway/.test(h))) return { type: 'comparison_kegg', confidence: 0.75, reason: 'Enrichment table with pathway column' };
+    return { type: 'comparison_go', confidence: 0.5, reason: `Enrichment columns (${term[0]}), GO or KEGG unclear` };
+  }
+
+  // Sample sheet: sample column plus a condition / group column and nothing numeric to report
+  const conditionCol = lower.find(h => /^(condition|group|treatment|genotype|phenotype)$/.test(h));
+  const qcCol = lower.some(h => /reads|bases|mapped|q20|q30|gc|%/.test(h));
+  if (conditionCol && !qcCol && lower.some(h => /^(sample|sample[-_. ]?(id|name)|samples)$/.test(h))) {
+    return { type: 'sample_sheet', confidence: 0.85, reason: `Sample sheet columns (sample, ${headers[lower.indexOf(conditionCol)]})` };
+  }
+
+  // Per-sample QC tables
+  if (lower.some(h => /uniquely|unique|multi[-_ ]?map|mapping rate|mapped/.test(h))) {
+    return { type: 'mapping', confidence: 0.8, reason: 'Mapping statistics columns' };
+  }
+  if (lower.some(h => /q20|q30|gc|raw reads|clean reads|raw bases|clean bases|total reads/.test(h))) {
+    return { type: 'stats', confidence: 0.8, reason: 'Read QC columns (Q30, GC, reads)' };
+  }
+  return null;
+};
+
+const readRows = async (file: File, name: string): Promise<any[][]> => {
+  if (!SPREADSHEET.test(name)) {
+    const head = await readHead(file, 32768);
+    return parseDelimited(head, sniffDelimited(head, name), 40);
+  }
+  const workbook = XLSX.read(await readFileAsArrayBuffer(file), { type: 'array', sheetRows: 40 });
+  const sheet = workbook.Sheets[workbook.SheetNames[0]];
+  return sheet ? XLSX.utils.sheet_to_json(sheet, { header: 1 }) as any[][] : [];
+};
+
+// Classify an upload by its content, using the filename only to break ties or when content is inconclusive
+export const detectFileType = async (file: File): Promise<FileTypeDetection & { type: DetectedType }> => {
+  const name = innerFileName(file.name);
+  const byName = detectTypeFromName(name);
+  if (BINARY_TYPES.includes(byName) && !/\.(txt|csv|tsv|xlsx|xls)$/i.test(name)) {
+    return { type: byName, confidence: 1, reason: 'Binary / raw data extension' };
+  }
+
+  // Archives are not sniffed; a FastQC zip is known by its name
+  if (byName === 'fastqc' && /\.zip$/i.test(name)) {
+    return { type: byName, confidence: 0.95, reason: 'FastQC archive (_fastqc.zip)' };
+  }
+
+  let evidence: Evidence | null = null;
+  let unreadable: string | undefined;
+  try {
+    if (!SPREADSHEET.test(name)) evidence = sniffText(await readHead(file), name);
+    if (!evidence) evidence = sniffTable(await readRows(file, name));
+  } catch (e) {
+    unreadable = `Content could not be read (${e instanceof Error ? e.message : String(e)})`;
+  }
+
+  if (!evidence) {
+    return {
+      type: byName,
+      confidence: byName === 'unknown' ? 0 : unreadable ? 0.2 : 0.35,
+      reason: unreadable
+        ? `${unreadable}${byName === 'unknown' ? '' : '; filename keywords only'}`
+        : byName === 'unknown' ? 'Content not recognised' : 'Filename keywords only'
+    };
+  }
+  if (evidence.type === byName) {
+    return { ...evidence, confidence: Math.min(0.99, Math.round((evidence.confidence + 0.05) * 100) / 100), reason: `${evidence.reason}; filename agrees` };
+  }
+  // Ambiguous GO / KEGG call: the filename decides
+  if (evidence.confidence <= 0.5 && (byName === 'comparison_go' || byName === 'comparison_kegg')) {
+    return { type: byName, confidence: 0.55, reason: `${evidence.reason}; filename suggests ${byName === 'comparison_go' ? 'GO' : 'KEGG'}` };
+  }
+  return evidence;
+};
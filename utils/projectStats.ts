@@ -0,0 +1,158 @@
+import { DerivedStats, ProcessedData, DataSection } from '../types';
+
+const BASE_UNITS: Record<string, number> = { '': 1, k: 1e3, m: 1e6, g: 1e9, t: 1e12 };
+
+export const numberOf = (cell: any): number => parseFloat(String(cell ?? '').replace(/[,%\s]/g, ''));
+
+const mean = (values: number[]): number => values.reduce((a, b) => a + b, 0) / values.length;
+
+const mostCommon = <T>(values: T[]): T => {
+  const counts = new Map<T, number>();
+  values.forEach(v => counts.set(v, (counts.get(v) || 0) + 1));
+  return Array.from(counts.entries()).sort((a, b) => b[1] - a[1])[0][0];
+};
+
+// First header matching each pattern in turn, skipping excluded ones
+const findColumn = (headers: string[], patterns: RegExp[], exclude?: RegExp): number => {
+  for (const pattern of patterns) {
+    const idx = headers.findIndex(h => pattern.test(h) && !(exclude && exclude.test(h)));
+    if (idx >= 0) return idx;
+  }
+  return -1;
+};
+
+export const columnValues = (table: string[][], col: number): any[] =>
+  table.slice(1).map(row => row[col]).filter(c => c !== undefined && c !== null && String(c).trim() !== '');
+
+// Unit in a header such as "Raw Bases (Gb)", "Data (G)" or "Yield Mb"
+export const headerUnit = (header: string): string | undefined => {
+  const match = header.match(/\(\s*([kmgt])b?p?\s*\)|\b([kmgt])b(?:ases)?\b/i);
+  return match ? (match[1] || match[2]).toLowerCase() : undefined;
+};
+
+// "12,345,678,900", "12.3G", "850 Mb" -> 12345678900, 12300000000, 850000000
+export const unitValue = (cell: any, unit?: string): number => {
+  const match = String(cell).trim().match(/^([\d.,]+)\s*([kmgt])?b?p?$/i);
+  if (!match) return NaN;
+  const value = parseFloat(match[1].replace(/,/g, ''));
+  return value * BASE_UNITS[(match[2] || unit || '').toLowerCase()];
+};
+
+const sourceName = (data: ProcessedData, section: DataSection, fallback = 'uploaded table'): string =>
+  data.sources.find(s => s.section === section)?.fileName || fallback;
+
+const deriveSamples = (data: ProcessedData): DerivedStats['totalSamples'] => {
+  if (data.samples.length > 0) {
+    return { value: data.samples.length, fileName: sourceName(data, 'sampleSheet', 'sample sheet editor'), basis: 'Samples in the sample sheet' };
+  }
+  const [table, section] = data.dataStatsTable.length > 1
+    ? [data.dataStatsTable, 'dataStats' as const]
+    : [data.mappingStatsTable, 'mappingStats' as const];
+  if (table.length < 2) return undefined;
+  return { value: table.length - 1, fileName: sourceName(data, section), basis: 'Rows in the per-sample table' };
+};
+
+const deriveReadLayout = (table: string[][]): { length: number; paired?: boolean; header: string } | undefined => {
+  if (table.length < 2) return undefined;
+  const headers = table[0].map(h => String(h ?? ''));
+  const lengthCol = findColumn(headers, [/read[-_ .]?len/i, /^(avg|mean|max)?[-_ .]?length/i, /sequence length/i]);
+  if (lengthCol < 0) return undefined;
+
+  const cells = columnValues(table, lengthCol).map(c => String(c));
+  // "2 X 150", "150-150" and FastQC ranges like "35-151" all end with the longest read length
+  const lengths = cells.map(c => numberOf((c.match(/[\d.]+(?=\D*$)/) || [''])[0])).filter(n => !isNaN(n) && n > 0);
+  if (lengths.length === 0) return undefined;
+
+  const layoutCol = findColumn(headers, [/layout/i, /paired|single/i, /library[-_ ]?type/i, /^(pe|se)([-_ /]?(pe|se))?$/i]);
+  const layoutCells = layoutCol >= 0 ? columnValues(table, layoutCol).map(c => String(c).toLowerCase()) : [];
+  let paired: boolean | undefined;
+  if (cells.some(c => /^\s*2\s*x/i.test(c))) paired = true;
+  else if (layoutCells.length > 0) paired = layoutCells.some(c => /pe|pair/.test(c));
+
+  return { length: Math.round(mostCommon(lengths)), paired, header: headers[lengthCol] };
+};
+
+const deriveReadLength = (data: ProcessedData): DerivedStats['readLength'] => {
+  for (const [table, section] of [[data.dataStatsTable, 'dataStats'], [data.mappingStatsTable, 'mappingStats']] as const) {
+    const layout = deriveReadLayout(table);
+    if (!layout) continue;
+    const value = layout.paired === undefined
+      ? `${layout.length} bp`
+      : `${layout.paired ? 2 : 1} X ${layout.length} ${layout.paired ? 'PE' : 'SE'}`;
+    return { value, fileName: sourceName(data, section), basis: `Most common value of "${layout.header}"` };
+  }
+  return undefined;
+};
+
+const deriveTotalData = (data: ProcessedData): DerivedStats['totalDataGB'] => {
+  const table = data.dataStatsTable;
+  if (table.length < 2) return undefined;
+  const headers = table[0].map(h => String(h ?? ''));
+  const notBases = /%|q20|q30|gc|rate|percent/i;
+  // Raw (delivered) data first; clean bases only when that is all the table has
+  const basesCol = findColumn(headers, [/(raw|total).*(bases|data|yield)/i, /bases|yield|data[-_ ]?(size|\()/i], notBases);
+
+  if (basesCol >= 0) {
+    const unit = headerUnit(headers[basesCol]);
+    const cells = columnValues(table, basesCol);
+    let values = cells.map(c => unitValue(c, unit)).filter(n => !isNaN(n));
+    if (values.length === 0) return undefined;
+    // No unit in the header or cells and small numbers: the column is already in Gb
+    if (!unit && values.every(v => v < 1e5) && !cells.some(c => /[kmgt]b?p?\s*$/i.test(String(c)))) values = values.map(v => v * 1e9);
+    const gb = values.reduce((a, b) => a + b, 0) / 1e9;
+    return { value: Math.round(gb * 10) / 10, fileName: sourceName(data, 'dataStats'), basis: `Sum of "${headers[basesCol]}" over ${values.length} samples` };
+  }
+
+  // Fall back to reads x read length (x 2 for paired-end)
+  const readsCol = findColumn(headers, [/(raw|total).*reads/i, /reads/i], notBases);
+  const layout = deriveReadLayout(table);
+  if (readsCol < 0 || !layout) return undefined;
+  const reads = columnValues(table, readsCol).map(c => unitValue(c, headerUnit(headers[readsCol]))).filter(n => !isNaN(n));
+  if (reads.length === 0) return undefined;
+  const gb = reads.reduce((a, b) => a + b, 0) * layout.length * (layout.paired ? 2 : 1) / 1e9;
+  return { value: Math.round(gb * 10) / 10, fileName: sourceName(data, 'dataStats'), basis: `"${headers[readsCol]}" x read length over ${reads.length} samples` };
+};
+
+// Percentages from a column, scaled to 0-100 when the column holds fractions
+export const percentValues = (cells: any[]): number[] => {
+  const values = cells.map(numberOf);
+  const found = values.filter(n => !isNaN(n));
+  return found.length > 0 && found.every(v => v <= 1) ? values.map(v => v * 100) : values;
+};
+
+// Overall mapping percentage column of a mapping table, falling back to unique mapping; -1 when none
+export const mappingRateColumn = (table: string[][]): number => {
+  if (table.length < 2) return -1;
+  const headers = table[0].map(h => String(h ?? ''));
+  const isRate = (col: number) => /%|rate|percent/i.test(headers[col]) || columnValues(table, col).some(c => String(c).includes('%'));
+  const candidates = [/overall|mapping rate|alignment rate|total.*(mapped|aligned)/i, /mapped|aligned|mapping/i, /unique/i];
+  const excluded = /multi|unmapped|not mapped|too short|chimeric|other|reads$/i;
+
+  for (const pattern of candidates) {
+    const col = headers.findIndex((h, idx) => pattern.test(h) && !excluded.test(h) && isRate(idx));
+    if (col >= 0) return col;
+  }
+  return -1;
+};
+
+const deriveMappingRate = (data: ProcessedData): DerivedStats['mappingRate'] => {
+  const table = data.mappingStatsTable;
+  const col = mappingRateColumn(table);
+  if (col < 0) return undefined;
+
+  const headers = table[0].map(h => String(h ?? ''));
+  const values = percentValues(columnValues(table, col)).filter(n => !isNaN(n));
+  if (values.length === 0) return undefined;
+  return { value: `${mean(values).toFixed(1)}%`, fileName: sourceName(data, 'mappingStats'), basis: `Mean of "${headers[col]}" over ${values.length} samples` };
+};
+
+// Executive statistics computable from the uploaded tables, each with the file and rule it came from
+export const deriveProjectStats = (data: ProcessedData): DerivedStats => {
+  const derived: DerivedStats = {
+    totalSamples: deriveSamples(data),
+    totalDataGB: deriveTotalData(data),
+    readLength: deriveReadLength(data),
+    mappingRate: deriveMappingRate(data)
+  };
+  return Object.fromEntries(Object.entries(derived).filter(([, stat]) => stat !== undefined)) as DerivedStats;
+};
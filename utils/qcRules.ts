@@ -0,0 +1,94 @@
+import { QCMetric, QCRule, QCStatus, SampleQC } from '../types';
+import { sampleColumn } from './excelParser';
+import { headerUnit, mappingRateColumn, percentValues, unitValue } from './projectStats';
+
+export const QC_METRIC_LABELS: Record<QCMetric, { label: string; unit: string }> = {
+  mappingRate: { label: 'Mapping rate', unit: '%' },
+  q30: { label: 'Q30', unit: '%' },
+  reads: { label: 'Reads', unit: 'M' },
+  duplication: { label: 'Duplication', unit: '%' }
+};
+
+export const DEFAULT_QC_RULES: QCRule[] = [
+  { metric: 'mappingRate', enabled: true, direction: 'min', warn: 80, fail: 70 },
+  { metric: 'q30', enabled: true, direction: 'min', warn: 90, fail: 85 },
+  { metric: 'reads', enabled: true, direction: 'min', warn: 25, fail: 20 },
+  { metric: 'duplication', enabled: true, direction: 'max', warn: 30, fail: 50 }
+];
+
+const STATUS_RANK: Record<QCStatus, number> = { pass: 0, warn: 1, fail: 2 };
+
+export const worstStatus = (statuses: QCStatus[]): QCStatus =>
+  statuses.reduce<QCStatus>((worst, s) => STATUS_RANK[s] > STATUS_RANK[worst] ? s : worst, 'pass');
+
+const ruleStatus = (rule: QCRule, value: number): QCStatus => {
+  const beyond = (limit: number) => rule.direction === 'min' ? value < limit : value > limit;
+  return beyond(rule.fail) ? 'fail' : beyond(rule.warn) ? 'warn' : 'pass';
+};
+
+type MetricColumn = { table: string[][]; values: number[] }; // One value per data row of `table`
+
+// Locate each metric's column; values are % for rates and millions for reads
+const metricColumn = (metric: QCMetric, dataStats: string[][], mappingStats: string[][]): MetricColumn | null => {
+  const find = (table: string[][], pattern: RegExp, exclude?: RegExp): number =>
+    table.length < 2 ? -1 : table[0].findIndex(h => pattern.test(String(h ?? '')) && !(exclude && exclude.test(String(h ?? ''))));
+  const percents = (table: string[][], col: number): MetricColumn => ({ table, values: percentValues(table.slice(1).map(row => row[col])) });
+
+  if (metric === 'mappingRate') {
+    const col = mappingRateColumn(mappingStats);
+    return col < 0 ? null : percents(mappingStats, col);
+  }
+  if (metric === 'q30') {
+    const col = find(dataStats, /q30/i);
+    return col < 0 ? null : percents(dataStats, col);
+  }
+  if (metric === 'duplication') {
+    for (const table of [dataStats, mappingStats]) {
+      const col = find(table, /dup/i);
+      if (col >= 0) return percents(table, col);
+    }
+    return null;
+  }
+  // Reads: raw / total reads first; plain counts are converted to millions, small unitless numbers already are
+  for (const table of [dataStats, mappingStats]) {
+    const col = [/(raw|total|input).*reads/i, /reads/i]
+      .map(pattern => find(table, pattern, /%|rate|percent|mapped|unique|multi|length/i))
+      .find(idx => idx >= 0);
+    if (col === undefined) continue;
+    const unit = headerUnit(String(table[0][col]));
+    const counts = table.slice(1).map(row => unitValue(row[col], unit));
+    const inMillions = !unit && counts.every(v => isNaN(v) || v < 1e4);
+    return { table, values: counts.map(v => inMillions ? v : v / 1e6) };
+  }
+  return null;
+};
+
+// Evaluate the enabled rules for every sample found in either table
+export const evaluateQC = (dataStats: string[][], mappingStats: string[][], rules: QCRule[]): SampleQC[] => {
+  const bySample = new Map<string, SampleQC>();
+
+  rules.filter(rule => rule.enabled).forEach(rule => {
+    const column = metricColumn(rule.metric, dataStats, mappingStats);
+    if (!column) return;
+    const values = column.values;
+    const idCol = sampleColumn(column.table);
+    column.table.slice(1).forEach((row, idx) => {
+      const sample = String(row[idCol] ?? '').trim();
+      const value = values[idx];
+      if (!sample || value === undefined || isNaN(value)) return;
+      const entry = bySample.get(sample) || { sample, status: 'pass' as QCStatus, checks: [] };
+      entry.checks.push({ metric: rule.metric, label: QC_METRIC_LABELS[rule.metric].label, value: Math.round(value * 100) / 100, status: ruleStatus(rule, value) });
+      entry.status = worstStatus(entry.checks.map(c => c.status));
+      bySample.set(sample, entry);
+    });
+  });
+
+  return Array.from(bySample.values());
+};
+
+// e.g. "Mapping rate: warn < 80%, fail < 70%"
+export const describeQCRule = (rule: QCRule): string => {
+  const { label, unit } = QC_METRIC_LABELS[rule.metric];
+  const op = rule.direction === 'min' ? '<' : '>';
+  return `${label}: warn ${op} ${rule.warn}${unit}, fail ${op} ${rule.fail}${unit}`;
+};
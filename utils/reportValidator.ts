@@ -0,0 +1,145 @@
+import { ComparisonData, DerivedStats, FileUploadStatus, ProcessedData, ProjectMetadata, ProjectStats, Step, ValidationIssue } from '../types';
+import { aliasOf, sampleIdsOf } from './excelParser';
+import { detectComparisonId } from './fileTypeDetector';
+
+export interface ValidationInput {
+  metadata: ProjectMetadata;
+  stats: ProjectStats;
+  derivedStats: DerivedStats;
+  data: ProcessedData;
+  uploads: FileUploadStatus[];
+  placeholders: { metadata: ProjectMetadata; stats: ProjectStats }; // Example values the builder starts with
+}
+
+const METADATA_LABELS: Record<keyof ProjectMetadata, string> = {
+  projectID: 'Project ID',
+  clientName: 'Client Name',
+  institute: 'Institute',
+  organism: 'Organism',
+  genomeBuild: 'Genome Build',
+  platform: 'Platform',
+  date: 'Date',
+  serviceType: 'Service Type',
+  sampleType: 'Sample Type',
+  shippingCondition: 'Shipping Condition'
+};
+
+// Metadata that identifies the project; the remaining example values are plausible defaults
+const PROJECT_SPECIFIC: (keyof ProjectMetadata)[] = ['projectID', 'clientName', 'institute'];
+
+const statLabel = (key: string): string => key.replace(/([a-z])([A-Z])/g, '$1 $2').replace(/^./, c => c.toUpperCase());
+
+const listSome = (ids: string[], max = 5): string =>
+  ids.length > max ? `${ids.slice(0, max).join(', ')} and ${ids.length - max} more` : ids.join(', ');
+
+const checkMetadata = ({ metadata, placeholders }: ValidationInput): ValidationIssue[] =>
+  (Object.keys(METADATA_LABELS) as (keyof ProjectMetadata)[]).flatMap((key): ValidationIssue[] => {
+    const value = String(metadata[key] ?? '').trim();
+    if (!value) return [{ severity: 'error', step: Step.METADATA, message: `${METADATA_LABELS[key]} is empty.` }];
+    if (PROJECT_SPECIFIC.includes(key) && value === placeholders.metadata[key]) {
+      return [{ severity: 'warning', step: Step.METADATA, message: `${METADATA_LABELS[key]} still shows the example value "${value}".` }];
+    }
+    return [];
+  });
+
+const checkStats = ({ stats, derivedStats, placeholders }: ValidationInput): ValidationIssue[] =>
+  (Object.keys(stats) as (keyof ProjectStats)[]).flatMap((key): ValidationIssue[] => {
+    const derived = derivedStats[key];
+    if (derived && String(derived.value) !== String(stats[key])) {
+      return [{ severity: 'warning', step: Step.STATS, message: `${statLabel(key)} is ${stats[key]}, but ${derived.fileName} gives ${derived.value}.` }];
+    }
+    if (!derived && stats[key] === placeholders.stats[key]) {
+      return [{ severity: 'warning', step: Step.STATS, message: `${statLabel(key)} still shows the example value ${stats[key]}.` }];
+    }
+    return [];
+  });
+
+// Per-sample tables and the sample sheet should describe the same samples, once aliases are applied
+const checkSamples = ({ data }: ValidationInput): ValidationIssue[] => {
+  const issues: ValidationIssue[] = [];
+  const sets = ([
+    ['Data & QC statistics', sampleIdsOf(data.dataStatsTable)],
+    ['Mapping statistics', sampleIdsOf(data.mappingStatsTable)],
+    ['Sample sheet', data.samples.map(s => s.id)]
+  ] as [string, string[]][])
+    .filter(([, ids]) => ids.length > 0)
+    .map(([name, ids]): [string, string[]] => [name, ids.map(id => aliasOf(data.sampleAliases, id))]);
+
+  sets.forEach(([name, ids], idx) => {
+    sets.slice(idx + 1).forEach(([otherName, otherIds]) => {
+      if (ids.length !== otherIds.length) {
+        issues.push({ severity: 'warning', step: Step.UPLOADS, message: `Sample counts differ: ${name} has ${ids.length}, ${otherName} has ${otherIds.length}.` });
+        return;
+      }
+      const missing = ids.filter(id => !otherIds.includes(id));
+      if (missing.length > 0) {
+        issues.push({ severity: 'warning', step: Step.UPLOADS, message: `${listSome(missing)} from ${name} not found in ${otherName}; check the sample aliases.` });
+      }
+    });
+    const duplicates = ids.filter((id, i) => ids.indexOf(id) !== i);
+    if (duplicates.length > 0) {
+      issues.push({ severity: 'error', step: Step.UPLOADS, message: `${name} has duplicate samples: ${listSome(Array.from(new Set(duplicates)))}.` });
+    }
+  });
+  return issues;
+};
+
+const checkSections = ({ data }: ValidationInput): ValidationIssue[] => {
+  const issues: ValidationIssue[] = [];
+  const missing = (message: string, severity: ValidationIssue['severity'] = 'warning') => issues.push({ severity, step: Step.UPLOADS, message });
+  if (data.dataStatsTable.length < 2) missing('No Data & QC statistics uploaded; the Data section will be empty.');
+  if (data.mappingStatsTable.length < 2) missing('No mapping statistics uploaded; the Mapping table and chart will be empty.');
+  if (data.dgeSummaryTable.length === 0) missing('No DGE summary; the summary table and overview chart will be empty.');
+  if (Object.keys(data.comparisons).length === 0) missing('No comparisons; the DGE and Functional Analysis sections will be empty.', 'error');
+  return issues;
+};
+
+const checkComparisons = ({ data }: ValidationInput): ValidationIssue[] =>
+  Object.values(data.comparisons).flatMap((comp: ComparisonData) => {
+    const issues: ValidationIssue[] = [];
+    if (!comp.records && comp.volcanoPoints.length === 0) {
+      issues.push({ severity: 'error', step: Step.UPLOADS, message: `${comp.name}: no DGE table uploaded, so its volcano and MA plots will be blank.` });
+    } else if (comp.goTerms.length === 0 && comp.keggPathways.length === 0) {
+      // Many projects ship only one enrichment type; only a comparison with neither is flagged
+      issues.push({ severity: 'warning', step: Step.UPLOADS, message: `${comp.name}: no GO terms or KEGG pathways.` });
+    }
+    if ((comp.numerator && !comp.denominator) || (!comp.numerator && comp.denominator)) {
+      issues.push({ severity: 'warning', step: Step.UPLOADS, message: `${comp.name}: only one side of the contrast is linked to a condition.` });
+    }
+    return issues;
+  });
+
+// Counts from an uploaded DGE summary must agree with those recomputed from the DGE tables
+const checkSummary = ({ data }: ValidationInput): ValidationIssue[] =>
+  data.dgeSummaryTable.flatMap((row): ValidationIssue[] => {
+    const compId = data.comparisons[row.comp] ? row.comp : detectComparisonId(String(row.comp));
+    const comp = compId ? data.comparisons[compId] : undefined;
+    if (!comp) {
+      return [{ severity: 'warning', step: Step.UPLOADS, message: `DGE summary row "${row.comp}" does not match any comparison.` }];
+    }
+    if (!comp.stats) return [];
+    const diffs = ([
+      ['significant', row.sig, comp.stats.sigTotal],
+      ['significant up', row.sigUp, comp.stats.sigUp],
+      ['significant down', row.sigDown, comp.stats.sigDown]
+    ] as [string, number, number][]).filter(([, summary, recomputed]) => Number(summary) !== recomputed);
+    if (diffs.length === 0) return [];
+    return [{
+      severity: 'error',
+      step: Step.UPLOADS,
+      message: `${comp.name}: DGE summary and DGE table disagree (${diffs.map(([label, summary, recomputed]) => `${label} ${summary} vs ${recomputed}`).join(', ')}).`
+    }];
+  });
+
+const checkUploads = ({ uploads }: ValidationInput): ValidationIssue[] =>
+  uploads.flatMap((upload): ValidationIssue[] => {
+    if (upload.status === 'error') return [{ severity: 'warning', step: Step.UPLOADS, message: `${upload.name} failed to parse: ${upload.message || 'unknown error'}.` }];
+    if (upload.status === 'pending') return [{ severity: 'warning', step: Step.UPLOADS, message: `${upload.name} is still being processed${upload.message ? ` (${upload.message})` : ''}.` }];
+    return [];
+  });
+
+// Consistency checks run before generating; errors first, each pointing at the step where it can be fixed
+export const validateReport = (input: ValidationInput): ValidationIssue[] =>
+  [checkMetadata, checkStats, checkSamples, checkSections, checkComparisons, checkSummary, checkUploads]
+    .flatMap(check => check(input))
+    .sort((a, b) => (a.severity === b.severity ? 0 : a.severity === 'error' ? -1 : 1) || a.step - b.step);
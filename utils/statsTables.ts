@@ -0,0 +1,82 @@
+import { StatsTablePart } from '../types';
+import { sampleColumn } from './excelParser';
+import { headerUnit, unitValue } from './projectStats';
+
+const RAW_STAGE = /raw|untrimmed|before/i;
+const CLEAN_STAGE = /clean|trim|filter|after/i;
+// Headers that already name their stage are not prefixed again
+const STAGE_WORD = /\b(raw|clean|trimmed|filtered)\b/i;
+const STAGE_RANK: Record<string, number> = { Raw: 0, Clean: 1 };
+
+export const RETAINED_HEADER = 'Retained After Trimming %';
+
+// "raw_data_stats.xlsx" -> "Raw", "clean_reads_QC.csv" / "trimmed_stats.txt" -> "Clean"; "" when the name does not say
+export const statsStageOf = (fileName: string): string => {
+  if (RAW_STAGE.test(fileName)) return 'Raw';
+  if (CLEAN_STAGE.test(fileName)) return 'Clean';
+  return '';
+};
+
+// Share of raw reads (or bases, without read counts) left in the clean data, when the table has both
+const withRetained = (table: string[][]): string[][] => {
+  const headers = table[0].map(h => String(h ?? ''));
+  if (headers.some(h => /retain|surviv/i.test(h))) return table;
+  const find = (stage: (h: string) => boolean, measure: RegExp) =>
+    headers.findIndex(h => stage(h) && measure.test(h) && !/%|rate|percent|ratio|length/i.test(h));
+
+  for (const measure of [/reads/i, /bases|data|yield/i]) {
+    const raw = find(h => RAW_STAGE.test(h), measure);
+    const clean = find(h => CLEAN_STAGE.test(h) && !RAW_STAGE.test(h), measure);
+    if (raw < 0 || clean < 0) continue;
+    const rawUnit = headerUnit(headers[raw]);
+    const cleanUnit = headerUnit(headers[clean]);
+    return [
+      [...table[0], RETAINED_HEADER],
+      ...table.slice(1).map(row => {
+        const before = unitValue(row[raw], rawUnit);
+        const after = unitValue(row[clean], cleanUnit);
+        return [...row, before > 0 && !isNaN(after) ? (after / before * 100).toFixed(2) : ''];
+      })
+    ];
+  }
+  return table;
+};
+
+// Join the uploaded stats tables on their sample column, raw before clean. Tables of different stages get their
+// columns prefixed ("Raw Q30 (%)", "Clean Q30 (%)"); tables of the same stage share columns, so batches stack.
+export const mergeStatsTables = (parts: StatsTablePart[]): string[][] => {
+  const usable = parts
+    .filter(part => part.table.length > 1)
+    .sort((a, b) => (STAGE_RANK[a.label] ?? 2) - (STAGE_RANK[b.label] ?? 2));
+  if (usable.length === 0) return [];
+
+  const prefixed = new Set(usable.map(part => part.label)).size > 1;
+  const sampleHeader = String(usable[0].table[0][sampleColumn(usable[0].table)] ?? 'Sample');
+  const headers: string[] = [];
+  const rows = new Map<string, Record<string, string>>();
+
+  usable.forEach(part => {
+    const idCol = sampleColumn(part.table);
+    const names = part.table[0].map(h => {
+      const header = String(h ?? '').trim();
+      return prefixed && part.label && !STAGE_WORD.test(header) ? `${part.label} ${header}` : header;
+    });
+    names.forEach((name, col) => {
+      if (col !== idCol && !headers.includes(name)) headers.push(name);
+    });
+    part.table.slice(1).forEach(row => {
+      const sample = String(row[idCol] ?? '').trim();
+      if (!sample) return;
+      const cells = rows.get(sample) || {};
+      names.forEach((name, col) => {
+        if (col !== idCol && String(row[col] ?? '').trim() !== '') cells[name] = row[col];
+      });
+      rows.set(sample, cells);
+    });
+  });
+
+  return withRetained([
+    [sampleHeader, ...headers],
+    ...Array.from(rows.entries()).map(([sample, cells]) => [sample, ...headers.map(h => cells[h] ?? '')])
+  ]);
+};